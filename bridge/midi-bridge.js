@@ -0,0 +1,147 @@
+// MIDI bridge for the 'Remote Bridge (WebSocket)' backend.
+//
+// Run this on the computer the MIDI devices are plugged into, then point the
+// controller (e.g. on a tablet) at ws://<computer-ip>:8765 in Settings.
+// It only listens on this computer unless started with --host 0.0.0.0, and
+// only accepts pages from localhost or an --allow-origin (see server.js).
+//
+//   npm install --no-save ws @julusian/midi
+//   node bridge/midi-bridge.js [--port 8765] [--host 0.0.0.0] [--allow-origin http://192.168.1.20:5173]
+//
+// Protocol (JSON text frames):
+//   bridge -> client  { type: 'devices', devices: { inputs, outputs } }
+//                     { type: 'message', portId, data }
+//   client -> bridge  { type: 'send', portId, data }
+
+import midi from '@julusian/midi';
+import { createBridgeServer, getArg } from './server.js';
+
+const DEFAULT_PORT = 8765;
+const POLL_INTERVAL_MS = 2000;
+
+const port = Number(getArg('port', process.env.MIDI_BRIDGE_PORT)) || DEFAULT_PORT;
+
+// Open ports keyed by ID: { name, port }
+const inputs = new Map();
+const outputs = new Map();
+let devices = { inputs: [], outputs: [] };
+
+// IDs avoid '-' because the controller splits selected IDs on it
+const makeId = (type, name, used) => {
+  const base = `${type}_${name.replace(/[^A-Za-z0-9]+/g, '_')}`;
+  let id = base;
+  for (let n = 2; used.has(id); n++) id = `${base}_${n}`;
+  used.add(id);
+  return id;
+};
+
+const listPorts = (type) => {
+  const probe = type === 'in' ? new midi.Input() : new midi.Output();
+  const used = new Set();
+  const ports = [];
+  for (let i = 0; i < probe.getPortCount(); i++) {
+    const name = probe.getPortName(i);
+    ports.push({ id: makeId(type, name, used), name, index: i });
+  }
+  probe.closePort();
+  return ports;
+};
+
+const toDevice = (type) => ({ id, name }) => ({
+  id,
+  name,
+  manufacturer: '',
+  type,
+  state: 'connected',
+});
+
+const broadcast = (message) => {
+  const text = JSON.stringify(message);
+  wss.clients.forEach(client => {
+    if (client.readyState === client.OPEN) client.send(text);
+  });
+};
+
+// Re-open ports when the system's list changes and tell clients about it
+const refreshPorts = () => {
+  const inputPorts = listPorts('in');
+  const outputPorts = listPorts('out');
+
+  const next = {
+    inputs: inputPorts.map(toDevice('input')),
+    outputs: outputPorts.map(toDevice('output')),
+  };
+  if (JSON.stringify(next) === JSON.stringify(devices)) return;
+
+  inputs.forEach(({ port }) => port.closePort());
+  outputs.forEach(({ port }) => port.closePort());
+  inputs.clear();
+  outputs.clear();
+
+  inputPorts.forEach(({ id, name, index }) => {
+    const input = new midi.Input();
+    // Don't filter SysEx, timing or active sensing
+    input.ignoreTypes(false, false, false);
+    input.on('message', (_deltaTime, data) => {
+      broadcast({ type: 'message', portId: id, data: Array.from(data) });
+    });
+    input.openPort(index);
+    inputs.set(id, { name, port: input });
+  });
+
+  outputPorts.forEach(({ id, name, index }) => {
+    const output = new midi.Output();
+    output.openPort(index);
+    outputs.set(id, { name, port: output });
+  });
+
+  devices = next;
+  console.log(`MIDI ports: ${inputPorts.length} in, ${outputPorts.length} out`);
+  broadcast({ type: 'devices', devices });
+};
+
+const { wss, address } = createBridgeServer(port);
+
+wss.on('connection', (socket, request) => {
+  console.log(`Client connected from ${request.socket.remoteAddress}`);
+  socket.send(JSON.stringify({ type: 'devices', devices }));
+
+  socket.on('message', (raw) => {
+    let message;
+    try {
+      message = JSON.parse(raw.toString());
+    } catch (error) {
+      console.warn('Ignoring malformed message:', error.message);
+      return;
+    }
+
+    if (message.type !== 'send') return;
+
+    const output = outputs.get(message.portId);
+    if (!output) {
+      console.warn(`Unknown output: ${message.portId}`);
+      return;
+    }
+    if (!Array.isArray(message.data) || message.data.some(byte => !Number.isInteger(byte) || byte < 0 || byte > 0xFF)) {
+      console.warn('Ignoring invalid MIDI data:', message.data);
+      return;
+    }
+    output.port.sendMessage(message.data);
+  });
+
+  socket.on('close', () => console.log('Client disconnected'));
+});
+
+refreshPorts();
+const poll = setInterval(refreshPorts, POLL_INTERVAL_MS);
+
+const shutdown = () => {
+  clearInterval(poll);
+  inputs.forEach(({ port }) => port.closePort());
+  outputs.forEach(({ port }) => port.closePort());
+  wss.close(() => process.exit(0));
+};
+process.on('SIGINT', shutdown);
+process.on('SIGTERM', shutdown);
+
+console.log(`MIDI bridge listening on ${address}`);
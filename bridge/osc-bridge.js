@@ -0,0 +1,62 @@
+// OSC bridge: relays OSC packets between the controller's WebSocket and UDP.
+//
+// Browsers can't send UDP, so the controller sends encoded OSC packets over a
+// WebSocket and this script forwards them unchanged. Set the controller's
+// OSC Bridge Address in Settings to ws://<computer-ip>:8766.
+//
+//   npm install --no-save ws
+//   node bridge/osc-bridge.js [--port 8766] [--target 127.0.0.1:9000] [--listen 9001]
+//
+//   --port    WebSocket port the controller connects to
+//   --target  host:port that OSC messages are sent to
+//   --listen  UDP port that incoming OSC is received on
+//
+// --host and --allow-origin work as for the MIDI bridge (see server.js).
+
+import dgram from 'node:dgram';
+import { createBridgeServer, getArg } from './server.js';
+
+const port = Number(getArg('port', process.env.OSC_BRIDGE_PORT)) || 8766;
+const [targetHost, targetPortText] = getArg('target', '127.0.0.1:9000').split(':');
+const targetPort = Number(targetPortText) || 9000;
+const listenPort = Number(getArg('listen', 9001)) || 9001;
+
+const udp = dgram.createSocket('udp4');
+const { wss, address } = createBridgeServer(port);
+
+// Incoming OSC goes to every connected controller
+udp.on('message', (packet) => {
+  wss.clients.forEach(client => {
+    if (client.readyState === client.OPEN) client.send(packet, { binary: true });
+  });
+});
+
+udp.on('error', (error) => {
+  console.error('UDP error:', error.message);
+});
+
+wss.on('connection', (socket, request) => {
+  console.log(`Client connected from ${request.socket.remoteAddress}`);
+
+  socket.on('message', (data, isBinary) => {
+    if (!isBinary) {
+      console.warn('Ignoring text frame, OSC packets are sent as binary');
+      return;
+    }
+    udp.send(data, targetPort, targetHost);
+  });
+
+  socket.on('close', () => console.log('Client disconnected'));
+});
+
+udp.bind(listenPort, () => {
+  console.log(`OSC bridge listening on ${address}`);
+  console.log(`Sending to ${targetHost}:${targetPort}, receiving on UDP ${listenPort}`);
+});
+
+const shutdown = () => {
+  udp.close();
+  wss.close(() => process.exit(0));
+};
+process.on('SIGINT', shutdown);
+process.on('SIGTERM', shutdown);
@@ -0,0 +1,45 @@
+// WebSocket server setup shared by the bridges.
+//
+//   --host          Address to listen on (default 127.0.0.1, this computer
+//                   only). Use 0.0.0.0 to accept controllers on the network.
+//   --allow-origin  Comma-separated web origins allowed to connect besides
+//                   pages served from localhost, e.g. http://192.168.1.20:5173
+
+import { WebSocketServer } from 'ws';
+
+const DEFAULT_HOST = '127.0.0.1';
+const LOCAL_HOSTNAMES = new Set(['localhost', '127.0.0.1', '[::1]']);
+
+export const getArg = (name, fallback) => {
+  const index = process.argv.indexOf(`--${name}`);
+  return index !== -1 ? process.argv[index + 1] : fallback;
+};
+
+// Browsers always send an Origin header, so checking it stops any web page
+// open on the network from reaching the hardware. Clients without one are
+// not browsers.
+const createOriginCheck = (allowedOrigins) => ({ origin }) => {
+  if (!origin || allowedOrigins.has(origin)) return true;
+
+  let allowed = false;
+  try {
+    allowed = LOCAL_HOSTNAMES.has(new URL(origin).hostname);
+  } catch {
+    // Opaque origins such as 'null' are never allowed
+  }
+  if (!allowed) console.warn(`Rejected connection from origin ${origin}`);
+  return allowed;
+};
+
+export const createBridgeServer = (port) => {
+  const host = getArg('host', process.env.BRIDGE_HOST) || DEFAULT_HOST;
+  const allowedOrigins = new Set(
+    (getArg('allow-origin', process.env.BRIDGE_ALLOW_ORIGIN) || '')
+      .split(',')
+      .map(origin => origin.trim())
+      .filter(Boolean)
+  );
+
+  const wss = new WebSocketServer({ host, port, verifyClient: createOriginCheck(allowedOrigins) });
+  return { wss, address: `ws://${host}:${port}` };
+};
@@ -26,6 +26,7 @@ import {
 } from '@mui/icons-material';
 import { ControlItem } from '../types/index';
 import ColorPicker from './ColorPicker';
+import OscTabContent from './ControlTooltipTabs/OscTabContent';
 
 // Create an optimized TabPanel component
 const TabPanel = memo(({ children, value, index }: {
@@ -209,6 +210,7 @@ function ControlEditorPanel({
         <Tab label="Basic" />
         <Tab label="MIDI" />
         <Tab label="Extra" />
+        <Tab label="OSC" />
       </Tabs>
 
       <Box sx={{ overflow: 'auto', flexGrow: 1 }}>
@@ -598,6 +600,13 @@ function ControlEditorPanel({
             </>
           )}
         </TabPanel>
+
+        <TabPanel value={activeTab} index={3}>
+          <OscTabContent
+            selectedControl={selectedControl}
+            updateControlConfig={updateControlConfig}
+          />
+        </TabPanel>
       </Box>
 
       <Divider sx={{ my: 2 }} />
@@ -4,6 +4,19 @@ import MidiButton from './MidiButton';
 import MidiToggle from './MidiToggle';
 import MidiLabel from './MidiLabel';
 import MidiTextBox from './MidiTextBox';
+import MidiProgramChange from './MidiProgramChange';
+import MidiSysExButton from './MidiSysExButton';
+import MidiTransport from './MidiTransport';
+import MidiMacro from './MidiMacro';
+import MidiKnob from './MidiKnob';
+import MidiXYPad from './MidiXYPad';
+import MidiPadGrid from './MidiPadGrid';
+import MidiKeyboard from './MidiKeyboard';
+import MidiSequencer from './MidiSequencer';
+import MidiSelector from './MidiSelector';
+import MidiList from './MidiList';
+import MidiMeter from './MidiMeter';
+import MidiHistory from './MidiHistory';
 import { ControlItem as ControlItemType } from '../../types/index';
 
 interface ControlItemProps {
@@ -66,6 +79,123 @@ export default function ControlItem({
             selectedMidiOutput={selectedMidiOutput}
           />
         );
+      case 'program':
+        return (
+          <MidiProgramChange
+            control={control}
+            onChange={handleValueChange}
+            isEditMode={isEditMode}
+            selectedMidiOutput={selectedMidiOutput}
+          />
+        );
+      case 'sysex':
+        return (
+          <MidiSysExButton
+            control={control}
+            onChange={handleValueChange}
+            isEditMode={isEditMode}
+            selectedMidiOutput={selectedMidiOutput}
+          />
+        );
+      case 'transport':
+        return (
+          <MidiTransport
+            control={control}
+            onChange={handleValueChange}
+            isEditMode={isEditMode}
+            selectedMidiOutput={selectedMidiOutput}
+          />
+        );
+      case 'macro':
+        return (
+          <MidiMacro
+            control={control}
+            onChange={handleValueChange}
+            isEditMode={isEditMode}
+            selectedMidiOutput={selectedMidiOutput}
+          />
+        );
+      case 'knob':
+        return (
+          <MidiKnob
+            control={control}
+            onChange={handleValueChange}
+            isEditMode={isEditMode}
+            selectedMidiOutput={selectedMidiOutput}
+          />
+        );
+      case 'xypad':
+        return (
+          <MidiXYPad
+            control={control}
+            isEditMode={isEditMode}
+            selectedMidiOutput={selectedMidiOutput}
+          />
+        );
+      case 'padgrid':
+        return (
+          <MidiPadGrid
+            control={control}
+            onChange={handleValueChange}
+            isEditMode={isEditMode}
+            selectedMidiOutput={selectedMidiOutput}
+          />
+        );
+      case 'keyboard':
+        return (
+          <MidiKeyboard
+            control={control}
+            onChange={handleValueChange}
+            isEditMode={isEditMode}
+            selectedMidiOutput={selectedMidiOutput}
+          />
+        );
+      case 'sequencer':
+        return (
+          <MidiSequencer
+            control={control}
+            onChange={handleValueChange}
+            onUpdateControl={(id, { config }) => config && onUpdate(id, config)}
+            isEditMode={isEditMode}
+            selectedMidiOutput={selectedMidiOutput}
+          />
+        );
+      case 'selector':
+        return (
+          <MidiSelector
+            control={control}
+            onChange={handleValueChange}
+            isEditMode={isEditMode}
+            selectedMidiOutput={selectedMidiOutput}
+          />
+        );
+      case 'list':
+        return (
+          <MidiList
+            control={control}
+            onChange={handleValueChange}
+            isEditMode={isEditMode}
+            selectedMidiOutput={selectedMidiOutput}
+          />
+        );
+      case 'meter':
+        return (
+          <MidiMeter
+            control={control}
+            onChange={handleValueChange}
+            isEditMode={isEditMode}
+            selectedMidiOutput={selectedMidiOutput}
+          />
+        );
+      case 'history':
+        return (
+          <MidiHistory
+            control={control}
+            onChange={handleValueChange}
+            isEditMode={isEditMode}
+            selectedMidiOutput={selectedMidiOutput}
+          />
+        );
       default:
         return <div>Unknown control type: {control.type}</div>;
     }
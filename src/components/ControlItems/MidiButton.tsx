@@ -4,6 +4,9 @@ import { ControlItem } from '../../types/index';
 import useMIDI from '../../hooks/useMIDI';
 import { saveControlValue } from '../../utils/controlValueStorage';
 import { midiSync } from '../../utils/midiSync';
+import { formatMidiAddress } from '../../utils/midiHelpers';
+import { DEFAULT_VELOCITY } from '../../midi/midiHandler';
+import { oscHandler } from '../../osc/oscHandler';
 
 interface MidiButtonProps {
   control: ControlItem;
@@ -20,19 +23,23 @@ export default function MidiButton({
   onSelect,  // Updated type
   isEditMode = false,
   isSelected = false,
-  selectedMidiOutput,
 }: MidiButtonProps) {
   const { config } = control;
   const { 
-    subscribeToCC, 
-    selectInputDevice, 
-    sendCC,
-    devices
+    subscribeToControlValue, 
+    sendControlValue,
+    quantizeToClock
   } = useMIDI();
   const theme = useTheme();
   
-  const onValue = config.midi?.max !== undefined ? config.midi.max : 127;
-  const offValue = config.midi?.min !== undefined ? config.midi.min : 0;
+  // In note mode the on value is the velocity and the off value sends Note Off
+  const isNoteMode = config.midi?.messageType === 'note';
+  const onValue = isNoteMode
+    ? Number(config.midi?.velocity ?? DEFAULT_VELOCITY)
+    : config.midi?.max !== undefined ? config.midi.max : 127;
+  const offValue = isNoteMode ? 0 : config.midi?.min !== undefined ? config.midi.min : 0;
+  // Only plain 7-bit CC takes part in midiSync
+  const isPlainCC = (config.midi?.messageType ?? 'cc') === 'cc' && !config.midi?.highResolution;
   
   const [isPressed, setIsPressed] = useState(false);
   const [_, setMidiStatus] = useState<'ready'|'sent'|'error'>('ready');
@@ -41,49 +48,34 @@ export default function MidiButton({
   const lastUserInteractionRef = useRef<number>(0);
   const MIDI_DEBOUNCE_MS = 2000;
 
-  // Add MIDI monitoring setup
+  // Add MIDI monitoring setup (input devices are selected centrally)
   useEffect(() => {
     if (!config.midi || isEditMode) return;
 
-    const outputDevice = devices.find(d => d.id === selectedMidiOutput);
-    if (!outputDevice) return;
+    const unsubscribe = subscribeToControlValue(
+      config.midi,
+      (value: number) => {
+        // Check if we're within the debounce period
+        const timeSinceLastInteraction = Date.now() - lastUserInteractionRef.current;
+        if (timeSinceLastInteraction < MIDI_DEBOUNCE_MS) {
+          console.debug('Ignoring MIDI input during debounce period');
+          return;
+        }
 
-    const inputDevice = devices.find(d => 
-      d.type === 'input' && 
-      d.name === outputDevice.name
+        // Incoming notes light the button at any velocity
+        setIsPressed(isNoteMode ? value > 0 : value === onValue);
+        onChange(value);
+      }
     );
 
-    if (!inputDevice) {
-      console.warn(`No matching input device found for ${outputDevice.name}`);
-      return;
-    }
-
-    if (selectInputDevice(inputDevice.id)) {
-      const unsubscribe = subscribeToCC(
-        config.midi.channel ?? 1,  // Default to channel 1
-        config.midi.cc ?? 0,  // Default to CC 0
-        (value: number) => {
-          // Check if we're within the debounce period
-          const timeSinceLastInteraction = Date.now() - lastUserInteractionRef.current;
-          if (timeSinceLastInteraction < MIDI_DEBOUNCE_MS) {
-            console.debug('Ignoring MIDI input during debounce period');
-            return;
-          }
-
-          setIsPressed(value === onValue);
-          onChange(value);
-        }
-      );
-
-      return () => {
-        unsubscribe();
-      };
-    }
-  }, [config.midi, selectedMidiOutput, devices, onValue, isEditMode]);
+    return () => {
+      unsubscribe();
+    };
+  }, [config.midi, onValue, isNoteMode, isEditMode]);
 
   // Handle MIDI sync
   useEffect(() => {
-    if (!config.midi || isEditMode) return;
+    if (!config.midi || isEditMode || !isPlainCC) return;
 
     const unsubscribe = midiSync.subscribe(
       config.midi.channel ?? 1,  // Default to channel 1
@@ -95,7 +87,52 @@ export default function MidiButton({
     );
 
     return unsubscribe;
-  }, [config.midi?.channel, config.midi?.cc, isEditMode, onValue]);
+  }, [config.midi?.channel, config.midi?.cc, isEditMode, isPlainCC, onValue]);
+
+  // Mirror incoming OSC like MIDI, pressing when closer to the on value
+  useEffect(() => {
+    if (!config.osc || isEditMode) return;
+
+    return oscHandler.subscribeToControlValue(config.osc, offValue, onValue, (value) => {
+      const pressed = Math.abs(value - onValue) < Math.abs(value - offValue);
+      setIsPressed(pressed);
+      onChange(pressed ? onValue : offValue);
+    });
+  }, [config.osc, onValue, offValue, isEditMode]);
+
+  // Send a value over OSC and MIDI, keeping other controls on the CC in sync
+  const sendValueNow = (value: number): boolean => {
+    if (config.osc) {
+      oscHandler.sendControlValue(config.osc, value, offValue, onValue);
+    }
+
+    if (!config.midi) return true;
+
+    try {
+      const success = sendControlValue(config.midi, value);
+      if (success && isPlainCC) {
+        midiSync.notify(config.midi.channel ?? 1, config.midi.cc ?? 0, value);  // Default to channel 1 and CC 0
+      }
+      return success;
+    } catch (err) {
+      console.error('Button error:', err);
+      return false;
+    }
+  };
+
+  // With quantize on, presses and releases wait for the next clock division.
+  // They're queued separately so a quick tap still sends both.
+  const sendButtonValue = (value: number): boolean => {
+    if (!config.quantize) return sendValueNow(value);
+
+    const key = `${control.id}-${value === onValue ? 'on' : 'off'}`;
+    quantizeToClock(key, config.quantize, () => {
+      if (!sendValueNow(value)) {
+        setMidiStatus('error');
+      }
+    });
+    return true;
+  };
 
   // Modify these event handlers to allow drag in edit mode
   const handleMouseDown = async (e: React.MouseEvent) => {
@@ -112,19 +149,9 @@ export default function MidiButton({
     setMidiStatus('sent');
     saveControlValue(control.id, onValue);
 
-    if (config.midi) {
-      try {
-        const success = sendCC(config.midi.channel ?? 1, config.midi.cc ?? 0, onValue);  // Default to channel 1 and CC 0
-        if (!success) {
-          setMidiStatus('error');
-          return;
-        }
-        midiSync.notify(config.midi.channel ?? 1, config.midi.cc ?? 0, onValue);  // Default to channel 1 and CC 0
-      } catch (err) {
-        console.error('Button error:', err);
-        setMidiStatus('error');
-        return;
-      }
+    if (!sendButtonValue(onValue)) {
+      setMidiStatus('error');
+      return;
     }
     
     onChange(onValue);
@@ -142,19 +169,9 @@ export default function MidiButton({
     setIsPressed(false);
     saveControlValue(control.id, offValue);
 
-    if (config.midi) {
-      try {
-        const success = sendCC(config.midi.channel ?? 1, config.midi.cc ?? 0, offValue);  // Default to channel 1 and CC 0
-        if (!success) {
-          setMidiStatus('error');
-          return;
-        }
-        midiSync.notify(config.midi.channel ?? 1, config.midi.cc ?? 0, offValue);  // Default to channel 1 and CC 0
-      } catch (err) {
-        console.error('Button error:', err);
-        setMidiStatus('error');
-        return;
-      }
+    if (!sendButtonValue(offValue)) {
+      setMidiStatus('error');
+      return;
     }
     
     onChange(offValue);
@@ -183,27 +200,9 @@ export default function MidiButton({
     setMidiStatus('sent');
     saveControlValue(control.id, onValue);
 
-    if (config.midi) {
-      try {
-        const success = sendCC(
-          config.midi.channel ?? 1, 
-          config.midi.cc ?? 0, 
-          onValue
-        );
-        if (!success) {
-          setMidiStatus('error');
-          return;
-        }
-        midiSync.notify(
-          config.midi.channel ?? 1, 
-          config.midi.cc ?? 0, 
-          onValue
-        );
-      } catch (err) {
-        console.error('Button error:', err);
-        setMidiStatus('error');
-        return;
-      }
+    if (!sendButtonValue(onValue)) {
+      setMidiStatus('error');
+      return;
     }
     
     onChange(onValue);
@@ -220,27 +219,9 @@ export default function MidiButton({
     setIsPressed(false); // Reset visual state
     saveControlValue(control.id, offValue);
 
-    if (config.midi) {
-      try {
-        const success = sendCC(
-          config.midi.channel ?? 1, 
-          config.midi.cc ?? 0, 
-          offValue
-        );
-        if (!success) {
-          setMidiStatus('error');
-          return;
-        }
-        midiSync.notify(
-          config.midi.channel ?? 1, 
-          config.midi.cc ?? 0, 
-          offValue
-        );
-      } catch (err) {
-        console.error('Button error:', err);
-        setMidiStatus('error');
-        return;
-      }
+    if (!sendButtonValue(offValue)) {
+      setMidiStatus('error');
+      return;
     }
     
     onChange(offValue);
@@ -315,7 +296,7 @@ export default function MidiButton({
               zIndex: 2,
             }}
           >
-            {config.midi.cc} | {config.midi.channel}
+            {formatMidiAddress(config.midi)} | {config.midi.channel}
           </Typography>
         )}
       </Box>
@@ -0,0 +1,207 @@
+import { useState, useEffect, useRef } from 'react';
+import { Box, Typography, useTheme } from '@mui/material';
+import { ControlItem, HistoryConfig } from '../../types/index';
+import useMIDI from '../../hooks/useMIDI';
+import { DEFAULT_HISTORY, HistoryPoint, MAX_HISTORY_WINDOW, trimHistory } from '../../utils/historyHelpers';
+
+// Horizontal grid lines at each quarter of the range
+const GRID_LINES = 4;
+
+type Series = 'incoming' | 'outgoing';
+
+interface MidiHistoryProps {
+  control: ControlItem;
+  onChange: (value: number) => void;
+  isEditMode?: boolean;
+  selectedMidiOutput?: string | null;
+}
+
+export default function MidiHistory({
+  control,
+  isEditMode = false,
+}: MidiHistoryProps) {
+  const { config } = control;
+  const { subscribeToCC, subscribeToSentCC } = useMIDI();
+  const theme = useTheme();
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+
+  const history: HistoryConfig = config.history ?? DEFAULT_HISTORY;
+  const channel = config.midi?.channel ?? 1;
+  const cc = config.midi?.cc ?? 0;
+  const colors: Record<Series, string> = {
+    incoming: config.color || theme.palette.primary.main,
+    outgoing: theme.palette.secondary.main,
+  };
+  const shownSeries: Series[] = history.source === 'both' ? ['incoming', 'outgoing'] : [history.source];
+
+  const [latest, setLatest] = useState<Record<Series, number | null>>({ incoming: null, outgoing: null });
+
+  // Points are added and drawn outside React so the graph can scroll every frame
+  const pointsRef = useRef<Record<Series, HistoryPoint[]>>({ incoming: [], outgoing: [] });
+  const drawRef = useRef({ history, colors, shownSeries });
+  drawRef.current = { history, colors, shownSeries };
+
+  const addPoint = (series: Series, value: number) => {
+    const now = performance.now();
+    // Keep enough for the longest window, whatever is shown now
+    pointsRef.current[series] = [
+      ...trimHistory(pointsRef.current[series], now, MAX_HISTORY_WINDOW * 1000),
+      { time: now, value },
+    ];
+    setLatest(prev => ({ ...prev, [series]: value }));
+  };
+
+  // Start from scratch when the graph watches another CC
+  useEffect(() => {
+    pointsRef.current = { incoming: [], outgoing: [] };
+    setLatest({ incoming: null, outgoing: null });
+  }, [channel, cc]);
+
+  useEffect(() => {
+    if (isEditMode) return;
+
+    const unsubscribers = [
+      subscribeToCC(channel, cc, (value) => addPoint('incoming', value)),
+      subscribeToSentCC(channel, cc, (value) => addPoint('outgoing', value)),
+    ];
+    return () => unsubscribers.forEach(unsubscribe => unsubscribe());
+  }, [channel, cc, isEditMode, subscribeToCC, subscribeToSentCC]);
+
+  // Redraw every frame so the history scrolls even when nothing arrives
+  useEffect(() => {
+    let frame: number;
+
+    const draw = () => {
+      frame = requestAnimationFrame(draw);
+
+      const canvas = canvasRef.current;
+      const context = canvas?.getContext('2d');
+      if (!canvas || !context) return;
+
+      // Match the canvas to its on-screen size for sharp lines
+      const pixelRatio = window.devicePixelRatio || 1;
+      const width = canvas.clientWidth;
+      const height = canvas.clientHeight;
+      if (canvas.width !== Math.round(width * pixelRatio) || canvas.height !== Math.round(height * pixelRatio)) {
+        canvas.width = Math.round(width * pixelRatio);
+        canvas.height = Math.round(height * pixelRatio);
+      }
+      context.setTransform(pixelRatio, 0, 0, pixelRatio, 0, 0);
+      context.clearRect(0, 0, width, height);
+
+      const { history, colors, shownSeries } = drawRef.current;
+      const now = performance.now();
+      const windowMs = history.window * 1000;
+      // Either end can be set first, so the range may come in upside down
+      const bottom = Math.min(history.min, history.max);
+      const range = Math.abs(history.max - history.min) || 1;
+      const toX = (time: number) => width - ((now - time) / windowMs) * width;
+      const toY = (value: number) => height - ((value - bottom) / range) * height;
+
+      context.strokeStyle = theme.palette.divider;
+      context.lineWidth = 1;
+      for (let i = 1; i < GRID_LINES; i++) {
+        const y = Math.round((height * i) / GRID_LINES) + 0.5;
+        context.beginPath();
+        context.moveTo(0, y);
+        context.lineTo(width, y);
+        context.stroke();
+      }
+
+      // MIDI values hold until the next message, so draw steps
+      shownSeries.forEach(series => {
+        const points = trimHistory(pointsRef.current[series], now, windowMs);
+        if (points.length === 0) return;
+
+        context.strokeStyle = colors[series];
+        context.lineWidth = 2;
+        context.beginPath();
+        context.moveTo(Math.max(0, toX(points[0].time)), toY(points[0].value));
+        for (let i = 1; i < points.length; i++) {
+          const x = toX(points[i].time);
+          context.lineTo(x, toY(points[i - 1].value));
+          context.lineTo(x, toY(points[i].value));
+        }
+        context.lineTo(width, toY(points[points.length - 1].value));
+        context.stroke();
+      });
+    };
+
+    frame = requestAnimationFrame(draw);
+    return () => cancelAnimationFrame(frame);
+  }, [theme]);
+
+  return (
+    <Box sx={{
+      width: '100%',
+      height: '100%',
+      display: 'flex',
+      flexDirection: 'column',
+      padding: 1,
+      gap: 0.5,
+      userSelect: 'none',
+      position: 'relative',
+    }}>
+      <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+        <Typography
+          variant="body2"
+          sx={{ fontWeight: 'bold', flexGrow: 1, minWidth: 0, overflow: 'hidden', whiteSpace: 'nowrap', textOverflow: 'ellipsis' }}
+        >
+          {config.label || 'History'}
+        </Typography>
+        {shownSeries.map(series => (
+          <Typography
+            key={series}
+            variant="caption"
+            sx={{ fontSize: '0.6rem', color: colors[series], fontVariantNumeric: 'tabular-nums' }}
+          >
+            {series === 'incoming' ? 'IN' : 'OUT'} {latest[series] ?? '-'}
+          </Typography>
+        ))}
+      </Box>
+
+      <Box sx={{
+        position: 'relative',
+        flexGrow: 1,
+        minHeight: 0,
+        border: 1,
+        borderColor: 'divider',
+        borderRadius: 1,
+      }}>
+        <canvas ref={canvasRef} style={{ position: 'absolute', inset: 0, width: '100%', height: '100%' }} />
+        <Typography
+          variant="caption"
+          sx={{ position: 'absolute', top: 0, right: 4, fontSize: '0.55rem', color: 'text.secondary' }}
+        >
+          {Math.max(history.min, history.max)}
+        </Typography>
+        <Typography
+          variant="caption"
+          sx={{ position: 'absolute', bottom: 0, right: 4, fontSize: '0.55rem', color: 'text.secondary' }}
+        >
+          {Math.min(history.min, history.max)}
+        </Typography>
+      </Box>
+
+      {/* MIDI info in edit mode */}
+      {isEditMode && (
+        <Typography
+          variant="caption"
+          sx={{
+            position: 'absolute',
+            bottom: '5px',
+            left: '5px',
+            fontSize: '0.6rem',
+            backgroundColor: 'rgba(0,0,0,0.6)',
+            color: 'white',
+            padding: '2px 4px',
+            borderRadius: 1,
+            zIndex: 2,
+          }}
+        >
+          CC {cc} | {history.window}s | {channel}
+        </Typography>
+      )}
+    </Box>
+  );
+}
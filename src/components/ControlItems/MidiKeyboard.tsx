@@ -0,0 +1,310 @@
+import { useState, useEffect, useRef } from 'react';
+import { Box, Button, IconButton, Typography, useTheme, alpha } from '@mui/material';
+import { Remove, Add } from '@mui/icons-material';
+import { ControlItem, KeyboardConfig } from '../../types/index';
+import useMIDI from '../../hooks/useMIDI';
+import { saveControlValue, loadControlValue } from '../../utils/controlValueStorage';
+import { getNoteName } from '../../utils/midiHelpers';
+import {
+  DEFAULT_KEYBOARD,
+  MAX_OCTAVE,
+  MIN_OCTAVE,
+  SUSTAIN_CC,
+  getOctaveStartNote,
+  isBlackKey
+} from '../../utils/keyboardHelpers';
+import { DEFAULT_VELOCITY } from '../../midi/midiHandler';
+
+// Black keys as a fraction of a white key's width and of the key height
+const BLACK_KEY_WIDTH = 0.6;
+const BLACK_KEY_HEIGHT = 0.6;
+
+interface MidiKeyboardProps {
+  control: ControlItem;
+  onChange: (value: number) => void;
+  isEditMode?: boolean;
+  selectedMidiOutput?: string | null;
+}
+
+export default function MidiKeyboard({
+  control,
+  onChange,
+  isEditMode = false,
+}: MidiKeyboardProps) {
+  const { config } = control;
+  const { sendNoteOn, sendNoteOff, sendCC, subscribeToNote, subscribeToCC } = useMIDI();
+  const theme = useTheme();
+
+  const keyboard: KeyboardConfig = config.keyboard ?? DEFAULT_KEYBOARD;
+  const channel = config.midi?.channel ?? 1;
+  const port = config.midi?.port;
+  const velocity = keyboard.velocity ?? DEFAULT_VELOCITY;
+  const color = config.color || theme.palette.primary.main;
+
+  // The octave shift is the control value, so it is kept with the preset values
+  const [octaveShift, setOctaveShift] = useState(config.value ?? 0);
+  const [sustain, setSustain] = useState(false);
+  // Note held by each pointer (null while a glissando is off the keys)
+  const [heldNotes, setHeldNotes] = useState<Map<number, number | null>>(new Map());
+  const heldNotesRef = useRef(heldNotes);
+  const [incomingNotes, setIncomingNotes] = useState<Set<number>>(new Set());
+
+  // Keep the whole range within MIDI notes 0-127
+  const minShift = MIN_OCTAVE - keyboard.startOctave;
+  const maxShift = MAX_OCTAVE - keyboard.octaves - keyboard.startOctave;
+  const lowestOctave = keyboard.startOctave + Math.max(minShift, Math.min(maxShift, octaveShift));
+  const lowestNote = getOctaveStartNote(lowestOctave);
+  const notes = Array.from({ length: keyboard.octaves * 12 + 1 }, (_, i) => lowestNote + i);
+  const whiteNotes = notes.filter(note => !isBlackKey(note));
+  const whiteKeyWidth = 100 / whiteNotes.length;
+  const playedNotes = new Set(Array.from(heldNotes.values()).filter((note): note is number => note !== null));
+
+  // Load saved shift on mount
+  useEffect(() => {
+    const savedValue = loadControlValue(control.id);
+    if (savedValue !== null) {
+      setOctaveShift(savedValue);
+    }
+  }, [control.id]);
+
+  const shiftOctave = (delta: number) => {
+    const shift = Math.max(minShift, Math.min(maxShift, octaveShift + delta));
+    setOctaveShift(shift);
+    saveControlValue(control.id, shift);
+    onChange(shift);
+  };
+
+  const toggleSustain = () => {
+    const next = !sustain;
+    if (sendCC(channel, SUSTAIN_CC, next ? 127 : 0, port)) {
+      setSustain(next);
+    }
+  };
+
+  const updateHeldNotes = (pointerId: number, note: number | null | undefined) => {
+    const next = new Map(heldNotesRef.current);
+    if (note === undefined) {
+      next.delete(pointerId);
+    } else {
+      next.set(pointerId, note);
+    }
+    heldNotesRef.current = next;
+    setHeldNotes(next);
+  };
+
+  // Move a pointer to another key, releasing the one it was on
+  const playNote = (pointerId: number, note: number | null | undefined) => {
+    const current = heldNotesRef.current.get(pointerId);
+    if (current === note) return;
+
+    if (current !== undefined && current !== null) {
+      sendNoteOff(channel, current, port);
+    }
+    if (note !== undefined && note !== null) {
+      sendNoteOn(channel, note, velocity, port);
+    }
+    updateHeldNotes(pointerId, note);
+  };
+
+  // Whatever key is under the pointer, so sliding across keys plays each one
+  const noteAt = (clientX: number, clientY: number): number | null => {
+    const key = document.elementFromPoint(clientX, clientY)?.closest<HTMLElement>('[data-note]');
+    if (!key || !key.dataset.note) return null;
+
+    const note = Number(key.dataset.note);
+    return note >= 0 && note <= 127 ? note : null;
+  };
+
+  const handlePointerDown = (e: React.PointerEvent) => {
+    if (isEditMode) return;
+    e.preventDefault();
+    e.currentTarget.setPointerCapture(e.pointerId);
+    playNote(e.pointerId, noteAt(e.clientX, e.clientY));
+  };
+
+  const handlePointerMove = (e: React.PointerEvent) => {
+    if (!heldNotesRef.current.has(e.pointerId)) return;
+    playNote(e.pointerId, noteAt(e.clientX, e.clientY));
+  };
+
+  const handlePointerUp = (e: React.PointerEvent) => {
+    if (!heldNotesRef.current.has(e.pointerId)) return;
+    playNote(e.pointerId, null);
+    updateHeldNotes(e.pointerId, undefined);
+  };
+
+  // Release held notes when the keyboard goes away or its channel or port
+  // changes, and forget them so they aren't released twice
+  useEffect(() => {
+    return () => {
+      heldNotesRef.current.forEach(note => {
+        if (note !== null) sendNoteOff(channel, note, port);
+      });
+      heldNotesRef.current = new Map();
+      setHeldNotes(heldNotesRef.current);
+    };
+  }, [channel, port, sendNoteOff]);
+
+  // Highlight keys from incoming notes
+  useEffect(() => {
+    if (isEditMode) return;
+
+    const unsubscribers = notes.map(note =>
+      subscribeToNote(channel, note, (_, isNoteOn) => {
+        setIncomingNotes(prev => {
+          const next = new Set(prev);
+          if (isNoteOn) {
+            next.add(note);
+          } else {
+            next.delete(note);
+          }
+          return next;
+        });
+      })
+    );
+    return () => {
+      unsubscribers.forEach(unsubscribe => unsubscribe());
+      setIncomingNotes(new Set());
+    };
+  }, [channel, lowestNote, keyboard.octaves, isEditMode, subscribeToNote]);
+
+  // Follow a sustain pedal on the same channel
+  useEffect(() => {
+    if (isEditMode) return;
+    return subscribeToCC(channel, SUSTAIN_CC, (value) => setSustain(value >= 64));
+  }, [channel, isEditMode, subscribeToCC]);
+
+  const getKeyColor = (note: number, isBlack: boolean) => {
+    if (playedNotes.has(note)) return color;
+    if (incomingNotes.has(note)) return alpha(color, 0.6);
+    return isBlack ? theme.palette.grey[900] : theme.palette.grey[100];
+  };
+
+  return (
+    <Box sx={{
+      width: '100%',
+      height: '100%',
+      display: 'flex',
+      flexDirection: 'column',
+      padding: 1,
+      gap: 0.5,
+      userSelect: 'none',
+      position: 'relative',
+    }}>
+      <Box sx={{ display: 'flex', alignItems: 'center', gap: 0.5 }}>
+        <Typography
+          variant="body2"
+          sx={{ fontWeight: 'bold', flexGrow: 1, minWidth: 0, overflow: 'hidden', whiteSpace: 'nowrap', textOverflow: 'ellipsis' }}
+        >
+          {config.label || 'Keyboard'}
+        </Typography>
+
+        <IconButton size="small" onClick={() => shiftOctave(-1)} disabled={isEditMode || octaveShift <= minShift} sx={{ p: 0.25 }}>
+          <Remove fontSize="small" />
+        </IconButton>
+        <Typography variant="caption" sx={{ fontVariantNumeric: 'tabular-nums', minWidth: 24, textAlign: 'center' }}>
+          {getNoteName(lowestNote)}
+        </Typography>
+        <IconButton size="small" onClick={() => shiftOctave(1)} disabled={isEditMode || octaveShift >= maxShift} sx={{ p: 0.25 }}>
+          <Add fontSize="small" />
+        </IconButton>
+
+        <Button
+          size="small"
+          variant={sustain ? 'contained' : 'outlined'}
+          onClick={toggleSustain}
+          disabled={isEditMode}
+          sx={{
+            minWidth: 0,
+            py: 0,
+            px: 1,
+            fontSize: '0.7rem',
+            ...(sustain
+              ? { backgroundColor: color, color: theme.palette.getContrastText(color) }
+              : { color, borderColor: color }),
+          }}
+        >
+          Sus
+        </Button>
+      </Box>
+
+      <Box
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+        onPointerCancel={handlePointerUp}
+        sx={{
+          position: 'relative',
+          flexGrow: 1,
+          minHeight: 0,
+          display: 'flex',
+          cursor: isEditMode ? 'default' : 'pointer',
+          touchAction: 'none',
+        }}
+      >
+        {whiteNotes.map(note => (
+          <Box
+            key={note}
+            data-note={note}
+            sx={{
+              flex: 1,
+              height: '100%',
+              border: `1px solid ${theme.palette.grey[500]}`,
+              borderRadius: '0 0 4px 4px',
+              backgroundColor: getKeyColor(note, false),
+              display: 'flex',
+              alignItems: 'flex-end',
+              justifyContent: 'center',
+            }}
+          >
+            {note % 12 === 0 && (
+              <Typography variant="caption" sx={{ fontSize: '0.55rem', color: 'grey.700', pointerEvents: 'none' }}>
+                {getNoteName(note)}
+              </Typography>
+            )}
+          </Box>
+        ))}
+
+        {notes.filter(isBlackKey).map(note => {
+          const whiteKeysBefore = whiteNotes.filter(white => white < note).length;
+          return (
+            <Box
+              key={note}
+              data-note={note}
+              sx={{
+                position: 'absolute',
+                top: 0,
+                left: `${(whiteKeysBefore - BLACK_KEY_WIDTH / 2) * whiteKeyWidth}%`,
+                width: `${BLACK_KEY_WIDTH * whiteKeyWidth}%`,
+                height: `${BLACK_KEY_HEIGHT * 100}%`,
+                borderRadius: '0 0 3px 3px',
+                backgroundColor: getKeyColor(note, true),
+                zIndex: 1,
+              }}
+            />
+          );
+        })}
+      </Box>
+
+      {/* MIDI info in edit mode */}
+      {isEditMode && (
+        <Typography
+          variant="caption"
+          sx={{
+            position: 'absolute',
+            bottom: '5px',
+            left: '5px',
+            fontSize: '0.6rem',
+            backgroundColor: 'rgba(0,0,0,0.6)',
+            color: 'white',
+            padding: '2px 4px',
+            borderRadius: 1,
+            zIndex: 2,
+          }}
+        >
+          {getNoteName(lowestNote)}-{getNoteName(lowestNote + keyboard.octaves * 12)} | {channel}
+        </Typography>
+      )}
+    </Box>
+  );
+}
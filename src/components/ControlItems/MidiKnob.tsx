@@ -0,0 +1,391 @@
+import { useState, useEffect, useRef } from 'react';
+import { Box, Typography, useTheme } from '@mui/material';
+import { ControlItem } from '../../types/index';
+import useMIDI from '../../hooks/useMIDI';
+import useControlSender from '../../hooks/useControlSender';
+import { saveControlValue, loadControlValue } from '../../utils/controlValueStorage';
+import { midiSync } from '../../utils/midiSync';
+import { PITCH_BEND_CENTER } from '../../midi/midiHandler';
+import { formatMidiAddress } from '../../utils/midiHelpers';
+import { oscHandler } from '../../osc/oscHandler';
+import { formatControlValue, getControlRange, snapToStep as snapValueToStep } from '../../utils/continuousControlHelpers';
+
+// The knob turns from 7 o'clock to 5 o'clock, angles are clockwise from the top
+const KNOB_SWEEP_DEGREES = 270;
+const KNOB_START_ANGLE = -KNOB_SWEEP_DEGREES / 2;
+// Vertical drag distance that covers the whole range
+const KNOB_DRAG_PIXELS = 200;
+// Movement is scaled by this while Shift is held or two fingers are down
+const FINE_ADJUST_FACTOR = 0.1;
+const KNOB_RADIUS = 38;
+
+// Point on the knob's circle (in the 100x100 SVG box) at an angle
+const pointAt = (angle: number) => {
+  const radians = (angle * Math.PI) / 180;
+  return {
+    x: 50 + KNOB_RADIUS * Math.sin(radians),
+    y: 50 - KNOB_RADIUS * Math.cos(radians),
+  };
+};
+
+const describeArc = (fromAngle: number, toAngle: number) => {
+  const start = pointAt(fromAngle);
+  const end = pointAt(toAngle);
+  const largeArc = Math.abs(toAngle - fromAngle) > 180 ? 1 : 0;
+  const sweep = toAngle > fromAngle ? 1 : 0;
+  return `M ${start.x} ${start.y} A ${KNOB_RADIUS} ${KNOB_RADIUS} 0 ${largeArc} ${sweep} ${end.x} ${end.y}`;
+};
+
+interface DragState {
+  value: number;      // Unsnapped value, so small moves add up
+  lastValue: number;  // Last value sent
+  x: number;
+  y: number;
+  angle: number;
+  touchId?: number;
+}
+
+interface MidiKnobProps {
+  control: ControlItem;
+  onChange: (value: number) => void;
+  isEditMode?: boolean;
+  selectedMidiOutput?: string | null;
+}
+
+export default function MidiKnob({
+  control,
+  onChange,
+  isEditMode = false,
+  selectedMidiOutput
+}: MidiKnobProps) {
+  const { config } = control;
+  const {
+    sendCC,
+    subscribeToControlValue
+  } = useMIDI();
+  const { sendValue } = useControlSender(control, selectedMidiOutput);
+  const [localValue, setLocalValue] = useState(config.value);
+  const theme = useTheme();
+  const knobRef = useRef<SVGSVGElement>(null);
+  const dragRef = useRef<DragState | null>(null);
+
+  const channel = config.midi?.channel ?? 1;
+  const cc = config.midi?.cc ?? 0;
+  const { isPitchBend, isPlainCC, min: actualMin, max: actualMax } = getControlRange(config.midi);
+
+  const dragMode = config.knobConfig?.dragMode ?? 'vertical';
+  const isBipolar = !!config.knobConfig?.bipolar;
+  // Round up so a 0-127 knob centres on 64, like pan and pitch bend
+  const centerValue = isPitchBend ? PITCH_BEND_CENTER : Math.ceil((actualMin + actualMax) / 2);
+
+  const color = config.color || theme.palette.primary.main;
+  const range = actualMax - actualMin;
+  const fraction = range === 0 ? 0 : Math.max(0, Math.min(1, (localValue - actualMin) / range));
+  const valueAngle = KNOB_START_ANGLE + fraction * KNOB_SWEEP_DEGREES;
+  const centerAngle = KNOB_START_ANGLE + ((centerValue - actualMin) / (range || 1)) * KNOB_SWEEP_DEGREES;
+  const fillFromAngle = isBipolar ? centerAngle : KNOB_START_ANGLE;
+  const pointer = pointAt(valueAngle);
+
+  useEffect(() => {
+    setLocalValue(config.value);
+  }, [config.value]);
+
+  // Load saved value on mount
+  useEffect(() => {
+    const savedValue = loadControlValue(control.id);
+    if (savedValue !== null) {
+      setLocalValue(savedValue);
+      onChange(savedValue);
+    }
+  }, [control.id]);
+
+  // Steps work the same way as on sliders
+  const snapToStep = (value: number) =>
+    snapValueToStep(value, actualMin, actualMax, config.sliderConfig?.steps);
+
+  // Bipolar knobs and pitch bend show the signed offset from the centre, in
+  // place of the default 0-100 view mode every new knob gets
+  const formatDisplayValue = (value: number) => isEditMode
+    ? Math.round(value)
+    : isBipolar || isPitchBend
+      ? formatControlValue(value, actualMin, actualMax, undefined, centerValue)
+      : formatControlValue(value, actualMin, actualMax, config.sliderConfig?.viewMode);
+
+  const lastUserInteractionRef = useRef<number>(0);
+  const MIDI_DEBOUNCE_MS = 2000; // Ignore MIDI input for a moment after user interaction
+
+  // Angle of a point around the knob's centre, clockwise from the top
+  const angleAt = (clientX: number, clientY: number) => {
+    if (!knobRef.current) return 0;
+
+    const rect = knobRef.current.getBoundingClientRect();
+    const dx = clientX - (rect.left + rect.width / 2);
+    const dy = clientY - (rect.top + rect.height / 2);
+    return (Math.atan2(dx, -dy) * 180) / Math.PI;
+  };
+
+  const beginDrag = (clientX: number, clientY: number, touchId?: number) => {
+    dragRef.current = {
+      value: localValue,
+      lastValue: localValue,
+      x: clientX,
+      y: clientY,
+      angle: angleAt(clientX, clientY),
+      touchId,
+    };
+  };
+
+  // Drags are relative, so grabbing the knob never makes it jump
+  const moveDrag = (clientX: number, clientY: number, fine: boolean) => {
+    const drag = dragRef.current;
+    if (!drag || isEditMode) return;
+
+    let delta;
+    if (dragMode === 'rotary') {
+      const angle = angleAt(clientX, clientY);
+      // Wrap so crossing the bottom of the knob doesn't count as a full turn
+      const angleDelta = ((angle - drag.angle + 540) % 360) - 180;
+      delta = angleDelta / KNOB_SWEEP_DEGREES;
+      drag.angle = angle;
+    } else {
+      delta = (drag.y - clientY) / KNOB_DRAG_PIXELS;
+    }
+    drag.x = clientX;
+    drag.y = clientY;
+
+    drag.value = Math.max(actualMin, Math.min(actualMax, drag.value + delta * range * (fine ? FINE_ADJUST_FACTOR : 1)));
+    const value = Math.max(actualMin, Math.min(actualMax, snapToStep(drag.value)));
+    lastUserInteractionRef.current = Date.now();
+    if (value === drag.lastValue) return;
+
+    drag.lastValue = value;
+    setLocalValue(value);
+    saveControlValue(control.id, value);
+    sendValue(value);
+    onChange(value);
+  };
+
+  const handleMouseDown = (e: React.MouseEvent) => {
+    if (isEditMode) return;
+    e.preventDefault(); // Don't select text while dragging
+
+    beginDrag(e.clientX, e.clientY);
+
+    const handleMouseMove = (moveEvent: MouseEvent) => {
+      moveDrag(moveEvent.clientX, moveEvent.clientY, moveEvent.shiftKey);
+    };
+
+    const handleMouseUp = () => {
+      dragRef.current = null;
+      document.removeEventListener('mousemove', handleMouseMove);
+      document.removeEventListener('mouseup', handleMouseUp);
+    };
+
+    document.addEventListener('mousemove', handleMouseMove);
+    document.addEventListener('mouseup', handleMouseUp);
+  };
+
+  const handleTouchStart = (e: React.TouchEvent) => {
+    if (isEditMode) return;
+    e.preventDefault(); // Prevent scrolling
+
+    // A second finger on the knob switches to fine adjust, it doesn't restart the drag
+    if (dragRef.current) return;
+
+    const touch = e.changedTouches[0];
+    beginDrag(touch.clientX, touch.clientY, touch.identifier);
+
+    const handleTouchMove = (moveEvent: TouchEvent) => {
+      moveEvent.preventDefault();
+      const drag = dragRef.current;
+      if (!drag) return;
+
+      const touches = Array.from(moveEvent.touches);
+      const moveTouch = touches.find(t => t.identifier === drag.touchId);
+      if (!moveTouch) {
+        // The first finger lifted, carry on from one of the others
+        const nextTouch = touches[0];
+        if (!nextTouch) return;
+        drag.touchId = nextTouch.identifier;
+        drag.x = nextTouch.clientX;
+        drag.y = nextTouch.clientY;
+        drag.angle = angleAt(nextTouch.clientX, nextTouch.clientY);
+        return;
+      }
+
+      moveDrag(moveTouch.clientX, moveTouch.clientY, touches.length >= 2);
+    };
+
+    const handleTouchEnd = (endEvent: TouchEvent) => {
+      if (endEvent.touches.length > 0) return;
+
+      dragRef.current = null;
+      document.removeEventListener('touchmove', handleTouchMove);
+      document.removeEventListener('touchend', handleTouchEnd);
+      document.removeEventListener('touchcancel', handleTouchEnd);
+    };
+
+    document.addEventListener('touchmove', handleTouchMove, { passive: false });
+    document.addEventListener('touchend', handleTouchEnd);
+    document.addEventListener('touchcancel', handleTouchEnd);
+  };
+
+  // Subscribe to sync events (sync carries 7-bit CC values, so other modes opt out)
+  useEffect(() => {
+    if (!config.midi || isEditMode || !isPlainCC) return;
+
+    return midiSync.subscribe(channel, cc, (value) => {
+      const timeSinceLastInteraction = Date.now() - lastUserInteractionRef.current;
+      if (timeSinceLastInteraction < MIDI_DEBOUNCE_MS) return;
+
+      setLocalValue(value);
+      onChange(value);
+    });
+  }, [channel, cc, isEditMode, isPlainCC]);
+
+  // Incoming OSC turns the knob the same way incoming MIDI does
+  useEffect(() => {
+    if (!config.osc || isEditMode) return;
+
+    return oscHandler.subscribeToControlValue(config.osc, actualMin, actualMax, (value) => {
+      const timeSinceLastInteraction = Date.now() - lastUserInteractionRef.current;
+      if (timeSinceLastInteraction < MIDI_DEBOUNCE_MS) return;
+
+      setLocalValue(value);
+      onChange(value);
+    });
+  }, [config.osc, actualMin, actualMax, isEditMode]);
+
+  // Subscribe to MIDI messages when component mounts
+  useEffect(() => {
+    if (!config.midi || isEditMode || !selectedMidiOutput) return;
+
+    const unsubscribe = subscribeToControlValue(config.midi, (value) => {
+      const timeSinceLastInteraction = Date.now() - lastUserInteractionRef.current;
+      if (timeSinceLastInteraction < MIDI_DEBOUNCE_MS) {
+        console.debug('Ignoring MIDI input during debounce period');
+        return;
+      }
+
+      const intValue = Math.round(value);
+      setLocalValue(intValue);
+      onChange(intValue);
+    });
+    if (!isPlainCC) {
+      return unsubscribe;
+    }
+
+    // Send a request for the current value if the device supports it
+    try {
+      const success = sendCC(channel, 0x62, Math.round(cc), config.midi.port);
+      if (!success) {
+        console.debug('Device might not support value request');
+      }
+    } catch (err) {
+      console.debug('Value request not supported by device');
+    }
+
+    return unsubscribe;
+  }, [config.midi, selectedMidiOutput, isEditMode, channel, cc, isPlainCC]);
+
+  return (
+    <Box sx={{
+      width: '100%',
+      height: '100%',
+      display: 'flex',
+      flexDirection: 'column',
+      alignItems: 'center',
+      padding: 1,
+      userSelect: 'none',
+      position: 'relative',
+    }}>
+      <Typography
+        variant="body2"
+        sx={{
+          maxWidth: '100%',
+          overflow: 'hidden',
+          whiteSpace: 'nowrap',
+          textOverflow: 'ellipsis',
+          fontWeight: 'bold',
+        }}
+      >
+        {config.label || 'Knob'}
+      </Typography>
+
+      <Box sx={{ flexGrow: 1, minHeight: 0, width: '100%', display: 'flex', justifyContent: 'center' }}>
+        <svg
+          ref={knobRef}
+          viewBox="0 0 100 100"
+          onMouseDown={handleMouseDown}
+          onTouchStart={handleTouchStart}
+          style={{
+            height: '100%',
+            maxWidth: '100%',
+            cursor: isEditMode ? 'default' : dragMode === 'rotary' ? 'grab' : 'ns-resize',
+            touchAction: 'none',
+          }}
+        >
+          {/* Track */}
+          <path
+            d={describeArc(KNOB_START_ANGLE, KNOB_START_ANGLE + KNOB_SWEEP_DEGREES)}
+            fill="none"
+            stroke={theme.palette.action.disabledBackground}
+            strokeWidth={8}
+            strokeLinecap="round"
+          />
+          {/* Value arc, from the bottom or from the centre when bipolar */}
+          {Math.abs(valueAngle - fillFromAngle) > 0.5 && (
+            <path
+              d={describeArc(fillFromAngle, valueAngle)}
+              fill="none"
+              stroke={color}
+              strokeWidth={8}
+              strokeLinecap="round"
+            />
+          )}
+          {/* Centre mark */}
+          {isBipolar && (
+            <circle cx={pointAt(centerAngle).x} cy={pointAt(centerAngle).y} r={2} fill={theme.palette.text.secondary} />
+          )}
+          <circle cx={50} cy={50} r={26} fill={theme.palette.background.paper} stroke={color} strokeWidth={2} />
+          <line
+            x1={50}
+            y1={50}
+            x2={50 + (pointer.x - 50) * 0.65}
+            y2={50 + (pointer.y - 50) * 0.65}
+            stroke={color}
+            strokeWidth={4}
+            strokeLinecap="round"
+          />
+        </svg>
+      </Box>
+
+      <Typography
+        variant="caption"
+        sx={{ fontWeight: 'medium', fontVariantNumeric: 'tabular-nums' }}
+      >
+        {formatDisplayValue(localValue)}
+      </Typography>
+
+      {/* MIDI info in edit mode */}
+      {isEditMode && config.midi && (
+        <Typography
+          variant="caption"
+          sx={{
+            position: 'absolute',
+            bottom: '5px',
+            left: '5px',
+            fontSize: '0.6rem',
+            backgroundColor: 'rgba(0,0,0,0.6)',
+            color: 'white',
+            padding: '2px 4px',
+            borderRadius: 1,
+            zIndex: 2,
+          }}
+        >
+          {formatMidiAddress(config.midi)} | {config.midi.channel}
+        </Typography>
+      )}
+    </Box>
+  );
+}
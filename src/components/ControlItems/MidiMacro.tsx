@@ -0,0 +1,229 @@
+import { useState, useEffect, useRef } from 'react';
+import { Box, Typography, useTheme } from '@mui/material';
+import { ControlItem, MacroTarget } from '../../types/index';
+import useMIDI from '../../hooks/useMIDI';
+import { saveControlValue, loadControlValue } from '../../utils/controlValueStorage';
+import { midiSync } from '../../utils/midiSync';
+import { getMacroTargetValue } from '../../utils/macroHelpers';
+
+// The macro itself moves over a 7-bit range, targets are scaled from it
+const MACRO_MAX = 127;
+
+interface MidiMacroProps {
+  control: ControlItem;
+  onChange: (value: number) => void;
+  onSelect?: () => void;
+  isEditMode?: boolean;
+  isSelected?: boolean;
+  selectedMidiOutput?: string | null;
+}
+
+export default function MidiMacro({
+  control,
+  onChange,
+  isEditMode = false,
+  selectedMidiOutput
+}: MidiMacroProps) {
+  const { config } = control;
+  const { sendCC } = useMIDI();
+  const theme = useTheme();
+  const sliderRef = useRef<HTMLDivElement>(null);
+  const [localValue, setLocalValue] = useState(config.value ?? 0);
+
+  const targets: MacroTarget[] = config.macroTargets ?? [];
+  const color = config.color || theme.palette.primary.main;
+  const isVertical = config.orientation !== 'horizontal';
+  const fillPercentage = (localValue / MACRO_MAX) * 100;
+
+  // Last value sent to each target during the current drag, so unchanged CCs
+  // aren't resent. Cleared when a drag starts, since other controls or the
+  // synth may have moved the targets in between.
+  const lastSentRef = useRef<Map<number, number>>(new Map());
+
+  useEffect(() => {
+    lastSentRef.current.clear();
+  }, [config.macroTargets]);
+
+  // Load saved value on mount
+  useEffect(() => {
+    const savedValue = loadControlValue(control.id);
+    if (savedValue !== null) {
+      setLocalValue(savedValue);
+      onChange(savedValue);
+    }
+  }, [control.id]);
+
+  // Send every target's CC and let other controls on those CCs follow
+  const sendTargets = (value: number) => {
+    if (!selectedMidiOutput) return;
+
+    const position = value / MACRO_MAX;
+    targets.forEach((target, index) => {
+      const targetValue = getMacroTargetValue(target, position);
+      if (lastSentRef.current.get(index) === targetValue) return;
+
+      if (sendCC(target.channel, target.cc, targetValue)) {
+        lastSentRef.current.set(index, targetValue);
+        midiSync.notify(target.channel, target.cc, targetValue);
+      }
+    });
+  };
+
+  const handleInteraction = (clientX: number, clientY: number) => {
+    if (!sliderRef.current || isEditMode) return;
+
+    const rect = sliderRef.current.getBoundingClientRect();
+    const percentage = isVertical
+      ? 1 - (clientY - rect.top) / rect.height
+      : (clientX - rect.left) / rect.width;
+    // Targets that haven't changed are skipped in sendTargets
+    const value = Math.round(Math.max(0, Math.min(1, percentage)) * MACRO_MAX);
+
+    setLocalValue(value);
+    saveControlValue(control.id, value);
+    sendTargets(value);
+    onChange(value);
+  };
+
+  const handleMouseDown = (e: React.MouseEvent) => {
+    if (isEditMode) return;
+
+    lastSentRef.current.clear();
+    handleInteraction(e.clientX, e.clientY);
+
+    const handleMouseMove = (moveEvent: MouseEvent) => {
+      handleInteraction(moveEvent.clientX, moveEvent.clientY);
+    };
+
+    const handleMouseUp = () => {
+      document.removeEventListener('mousemove', handleMouseMove);
+      document.removeEventListener('mouseup', handleMouseUp);
+    };
+
+    document.addEventListener('mousemove', handleMouseMove);
+    document.addEventListener('mouseup', handleMouseUp);
+  };
+
+  const handleTouchStart = (e: React.TouchEvent) => {
+    if (isEditMode) return;
+    e.preventDefault(); // Prevent scrolling
+
+    const touch = e.touches[0];
+    lastSentRef.current.clear();
+    handleInteraction(touch.clientX, touch.clientY);
+
+    const handleTouchMove = (moveEvent: TouchEvent) => {
+      moveEvent.preventDefault();
+      const moveTouch = moveEvent.touches[0];
+      handleInteraction(moveTouch.clientX, moveTouch.clientY);
+    };
+
+    const handleTouchEnd = () => {
+      document.removeEventListener('touchmove', handleTouchMove);
+      document.removeEventListener('touchend', handleTouchEnd);
+      document.removeEventListener('touchcancel', handleTouchEnd);
+    };
+
+    document.addEventListener('touchmove', handleTouchMove, { passive: false });
+    document.addEventListener('touchend', handleTouchEnd);
+    document.addEventListener('touchcancel', handleTouchEnd);
+  };
+
+  return (
+    <Box sx={{
+      width: '100%',
+      height: '100%',
+      display: 'flex',
+      flexDirection: 'column',
+      padding: 1,
+      userSelect: 'none',
+    }}>
+      <Box
+        sx={{
+          width: '100%',
+          mb: 1,
+          borderRadius: 1,
+          backgroundColor: color,
+          padding: '4px',
+          textAlign: 'center',
+          boxShadow: theme.shadows[1],
+        }}
+      >
+        <Typography
+          variant="body2"
+          sx={{
+            overflow: 'hidden',
+            whiteSpace: 'nowrap',
+            color: theme.palette.getContrastText(color),
+            fontWeight: 'bold',
+          }}
+        >
+          {config.label || 'Macro'}
+        </Typography>
+      </Box>
+
+      <Box
+        ref={sliderRef}
+        sx={{
+          position: 'relative',
+          flexGrow: 1,
+          border: `2px dashed ${color}`,
+          borderRadius: 1,
+          overflow: 'hidden',
+          cursor: isEditMode ? 'default' : 'pointer',
+          boxShadow: theme.shadows[1],
+          touchAction: 'none',
+        }}
+        onMouseDown={handleMouseDown}
+        onTouchStart={handleTouchStart}
+      >
+        <Box
+          sx={{
+            position: 'absolute',
+            bottom: 0,
+            left: 0,
+            ...(isVertical
+              ? { width: '100%', height: `${fillPercentage}%` }
+              : { width: `${fillPercentage}%`, height: '100%' }),
+            backgroundColor: color,
+          }}
+        />
+
+        <Box
+          sx={{
+            position: 'absolute',
+            top: '5px',
+            right: '5px',
+            backgroundColor: 'rgba(0,0,0,0.6)',
+            padding: '2px 4px',
+            borderRadius: 1,
+            zIndex: 1,
+          }}
+        >
+          <Typography variant="caption" sx={{ color: 'text.primary', fontWeight: 'medium' }}>
+            {Math.round(fillPercentage)}%
+          </Typography>
+        </Box>
+
+        <Typography
+          variant="caption"
+          sx={{
+            position: 'absolute',
+            bottom: '5px',
+            left: '5px',
+            fontSize: '0.6rem',
+            backgroundColor: 'rgba(0,0,0,0.6)',
+            color: 'white',
+            padding: '2px 4px',
+            borderRadius: 1,
+            zIndex: 2,
+          }}
+        >
+          {isEditMode
+            ? targets.map(target => target.cc).join(', ') || 'No targets'
+            : `${targets.length} CC${targets.length === 1 ? '' : 's'}`}
+        </Typography>
+      </Box>
+    </Box>
+  );
+}
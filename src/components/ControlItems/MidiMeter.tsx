@@ -0,0 +1,282 @@
+import { useState, useEffect, useRef } from 'react';
+import { Box, Typography, useTheme } from '@mui/material';
+import { ControlItem, MeterConfig } from '../../types/index';
+import useMIDI from '../../hooks/useMIDI';
+import { DEFAULT_METER, decayMeterLevel } from '../../utils/meterHelpers';
+
+// The needle swings from 10 o'clock to 2 o'clock, angles are clockwise from the top
+const NEEDLE_SWEEP_DEGREES = 120;
+const NEEDLE_START_ANGLE = -NEEDLE_SWEEP_DEGREES / 2;
+const NEEDLE_RADIUS = 44;
+// Pivot of the needle in the 100x60 SVG box
+const PIVOT_X = 50;
+const PIVOT_Y = 56;
+
+// Point at a distance from the pivot, at an angle
+const pointAt = (angle: number, radius = NEEDLE_RADIUS) => {
+  const radians = (angle * Math.PI) / 180;
+  return {
+    x: PIVOT_X + radius * Math.sin(radians),
+    y: PIVOT_Y - radius * Math.cos(radians),
+  };
+};
+
+const angleFor = (value: number) => NEEDLE_START_ANGLE + (value / 127) * NEEDLE_SWEEP_DEGREES;
+
+const SOURCE_LABELS: Record<MeterConfig['source'], string> = {
+  cc: 'CC',
+  aftertouch: 'AT',
+  velocity: 'Vel',
+};
+
+interface MidiMeterProps {
+  control: ControlItem;
+  onChange: (value: number) => void;
+  isEditMode?: boolean;
+  selectedMidiOutput?: string | null;
+}
+
+export default function MidiMeter({
+  control,
+  isEditMode = false,
+}: MidiMeterProps) {
+  const { config } = control;
+  const { subscribeToCC, subscribeToChannelPressure, subscribeToNote } = useMIDI();
+  const theme = useTheme();
+
+  const meter: MeterConfig = config.meter ?? DEFAULT_METER;
+  const channel = config.midi?.channel ?? 1;
+  const cc = config.midi?.cc ?? 0;
+  const color = config.color || theme.palette.primary.main;
+  const peakColor = theme.palette.error.main;
+  const showPeak = meter.peakHold > 0;
+
+  const [reading, setReading] = useState({ level: 0, peak: 0 });
+
+  // Levels move every animation frame, so they live outside React state
+  const levelsRef = useRef({ target: 0, level: 0, peak: 0, peakAt: 0 });
+  const frameRef = useRef<number | null>(null);
+  const lastFrameRef = useRef(0);
+  const meterRef = useRef(meter);
+  meterRef.current = meter;
+
+  const animate = (time: number) => {
+    const levels = levelsRef.current;
+    const { decay, peakHold } = meterRef.current;
+    const elapsed = time - lastFrameRef.current;
+    lastFrameRef.current = time;
+
+    levels.level = decayMeterLevel(levels.level, levels.target, decay, elapsed);
+    if (peakHold <= 0 || levels.level >= levels.peak) {
+      levels.peak = levels.level;
+      levels.peakAt = time;
+    } else if (time - levels.peakAt >= peakHold) {
+      levels.peak = decayMeterLevel(levels.peak, levels.level, decay, elapsed);
+    }
+    setReading({ level: levels.level, peak: levels.peak });
+
+    // Stop once everything has settled on the input
+    const settled = levels.level === levels.target && levels.peak === levels.level;
+    frameRef.current = settled ? null : requestAnimationFrame(animate);
+  };
+
+  // Meters rise straight to a new value and fall back at the decay rate
+  const showValue = (value: number) => {
+    const levels = levelsRef.current;
+    levels.target = value;
+    levels.level = Math.max(levels.level, value);
+
+    if (frameRef.current === null) {
+      lastFrameRef.current = performance.now();
+      frameRef.current = requestAnimationFrame(animate);
+    }
+  };
+
+  useEffect(() => {
+    return () => {
+      if (frameRef.current !== null) cancelAnimationFrame(frameRef.current);
+    };
+  }, []);
+
+  // Listen to whichever message the meter shows
+  useEffect(() => {
+    if (isEditMode) return;
+
+    switch (meter.source) {
+      case 'aftertouch':
+        return subscribeToChannelPressure(channel, showValue);
+      case 'velocity': {
+        // Any note on the channel; Note Off lets the level fall back
+        const unsubscribers = Array.from({ length: 128 }, (_, note) =>
+          subscribeToNote(channel, note, (velocity, isNoteOn) => showValue(isNoteOn ? velocity : 0))
+        );
+        return () => unsubscribers.forEach(unsubscribe => unsubscribe());
+      }
+      default:
+        return subscribeToCC(channel, cc, showValue);
+    }
+  }, [meter.source, channel, cc, isEditMode, subscribeToCC, subscribeToChannelPressure, subscribeToNote]);
+
+  const levelPercent = (reading.level / 127) * 100;
+  const peakPercent = (reading.peak / 127) * 100;
+  const needle = pointAt(angleFor(reading.level), NEEDLE_RADIUS - 4);
+
+  const renderDisplay = () => {
+    switch (meter.display) {
+      case 'needle':
+        return (
+          <svg viewBox="0 0 100 60" style={{ height: '100%', maxWidth: '100%' }}>
+            {/* Scale */}
+            <path
+              d={`M ${pointAt(NEEDLE_START_ANGLE).x} ${pointAt(NEEDLE_START_ANGLE).y} A ${NEEDLE_RADIUS} ${NEEDLE_RADIUS} 0 0 1 ${pointAt(-NEEDLE_START_ANGLE).x} ${pointAt(-NEEDLE_START_ANGLE).y}`}
+              fill="none"
+              stroke={theme.palette.action.disabledBackground}
+              strokeWidth={4}
+            />
+            {[0, 32, 64, 96, 127].map(value => {
+              const outer = pointAt(angleFor(value), NEEDLE_RADIUS + 2);
+              const inner = pointAt(angleFor(value), NEEDLE_RADIUS - 6);
+              return (
+                <line
+                  key={value}
+                  x1={inner.x}
+                  y1={inner.y}
+                  x2={outer.x}
+                  y2={outer.y}
+                  stroke={theme.palette.text.secondary}
+                  strokeWidth={1}
+                />
+              );
+            })}
+            {showPeak && (
+              <circle
+                cx={pointAt(angleFor(reading.peak)).x}
+                cy={pointAt(angleFor(reading.peak)).y}
+                r={2.5}
+                fill={peakColor}
+              />
+            )}
+            <line
+              x1={PIVOT_X}
+              y1={PIVOT_Y}
+              x2={needle.x}
+              y2={needle.y}
+              stroke={color}
+              strokeWidth={2.5}
+              strokeLinecap="round"
+            />
+            <circle cx={PIVOT_X} cy={PIVOT_Y} r={3} fill={color} />
+          </svg>
+        );
+      case 'number':
+        return (
+          <Box sx={{ display: 'flex', flexDirection: 'column', alignItems: 'center', justifyContent: 'center' }}>
+            <Typography variant="h4" sx={{ color, fontWeight: 'bold', fontVariantNumeric: 'tabular-nums', lineHeight: 1 }}>
+              {Math.round(reading.level)}
+            </Typography>
+            {showPeak && (
+              <Typography variant="caption" sx={{ color: peakColor, fontVariantNumeric: 'tabular-nums' }}>
+                Peak {Math.round(reading.peak)}
+              </Typography>
+            )}
+          </Box>
+        );
+      default:
+        return (
+          <Box sx={{
+            position: 'relative',
+            height: '100%',
+            width: '40%',
+            minWidth: 16,
+            maxWidth: 48,
+            borderRadius: 1,
+            overflow: 'hidden',
+            backgroundColor: 'action.disabledBackground',
+          }}>
+            <Box sx={{
+              position: 'absolute',
+              left: 0,
+              right: 0,
+              bottom: 0,
+              height: `${levelPercent}%`,
+              backgroundColor: color,
+            }} />
+            {showPeak && reading.peak > 0 && (
+              <Box sx={{
+                position: 'absolute',
+                left: 0,
+                right: 0,
+                bottom: `calc(${peakPercent}% - 2px)`,
+                height: '2px',
+                backgroundColor: peakColor,
+              }} />
+            )}
+          </Box>
+        );
+    }
+  };
+
+  return (
+    <Box sx={{
+      width: '100%',
+      height: '100%',
+      display: 'flex',
+      flexDirection: 'column',
+      alignItems: 'center',
+      padding: 1,
+      gap: 0.5,
+      userSelect: 'none',
+      position: 'relative',
+    }}>
+      <Typography
+        variant="body2"
+        sx={{
+          maxWidth: '100%',
+          overflow: 'hidden',
+          whiteSpace: 'nowrap',
+          textOverflow: 'ellipsis',
+          fontWeight: 'bold',
+        }}
+      >
+        {config.label || 'Meter'}
+      </Typography>
+
+      <Box sx={{
+        flexGrow: 1,
+        minHeight: 0,
+        width: '100%',
+        display: 'flex',
+        alignItems: 'center',
+        justifyContent: 'center',
+      }}>
+        {renderDisplay()}
+      </Box>
+
+      {meter.display !== 'number' && (
+        <Typography variant="caption" sx={{ fontVariantNumeric: 'tabular-nums' }}>
+          {Math.round(reading.level)}
+        </Typography>
+      )}
+
+      {/* MIDI info in edit mode */}
+      {isEditMode && (
+        <Typography
+          variant="caption"
+          sx={{
+            position: 'absolute',
+            bottom: '5px',
+            left: '5px',
+            fontSize: '0.6rem',
+            backgroundColor: 'rgba(0,0,0,0.6)',
+            color: 'white',
+            padding: '2px 4px',
+            borderRadius: 1,
+            zIndex: 2,
+          }}
+        >
+          {meter.source === 'cc' ? `CC ${cc}` : SOURCE_LABELS[meter.source]} | {channel}
+        </Typography>
+      )}
+    </Box>
+  );
+}
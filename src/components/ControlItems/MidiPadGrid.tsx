@@ -0,0 +1,192 @@
+import { useState, useEffect, useRef } from 'react';
+import { Box, Typography, useTheme, alpha } from '@mui/material';
+import { ControlItem, PadGridConfig } from '../../types/index';
+import useMIDI from '../../hooks/useMIDI';
+import { getNoteName } from '../../utils/midiHelpers';
+import { DEFAULT_PAD_GRID, getPadNote } from '../../utils/padGridHelpers';
+import { DEFAULT_VELOCITY } from '../../midi/midiHandler';
+
+// Velocity at the bottom edge of a pad in position mode
+const MIN_POSITION_VELOCITY = 20;
+
+interface MidiPadGridProps {
+  control: ControlItem;
+  onChange: (value: number) => void;
+  isEditMode?: boolean;
+  selectedMidiOutput?: string | null;
+}
+
+export default function MidiPadGrid({
+  control,
+  isEditMode = false,
+}: MidiPadGridProps) {
+  const { config } = control;
+  const { sendNoteOn, sendNoteOff, subscribeToNote } = useMIDI();
+  const theme = useTheme();
+
+  const grid: PadGridConfig = config.padGrid ?? DEFAULT_PAD_GRID;
+  const channel = config.midi?.channel ?? 1;
+  const port = config.midi?.port;
+  const color = config.color || theme.palette.primary.main;
+  const fixedVelocity = grid.velocity ?? DEFAULT_VELOCITY;
+
+  // Velocity of each lit note, from our own presses and from incoming notes
+  const [litNotes, setLitNotes] = useState<Map<number, number>>(new Map());
+  // Note held by each pointer, so several pads can be played at once
+  const heldNotesRef = useRef<Map<number, number>>(new Map());
+
+  const setLit = (note: number, velocity: number) => {
+    setLitNotes(prev => {
+      const next = new Map(prev);
+      if (velocity > 0) {
+        next.set(note, velocity);
+      } else {
+        next.delete(note);
+      }
+      return next;
+    });
+  };
+
+  // Rows are listed top to bottom, notes count up from the bottom-left pad
+  const rows = Array.from({ length: grid.rows }, (_, rowFromTop) => {
+    const row = grid.rows - 1 - rowFromTop;
+    return Array.from({ length: grid.columns }, (_, column) => getPadNote(grid, row, column));
+  });
+  const notes = rows.flat().filter((note): note is number => note !== null);
+  const notesKey = notes.join(',');
+
+  const getVelocity = (e: React.PointerEvent) => {
+    if (grid.velocityMode === 'position') {
+      // Higher up the pad hits harder
+      const rect = e.currentTarget.getBoundingClientRect();
+      const position = 1 - (e.clientY - rect.top) / rect.height;
+      const velocity = MIN_POSITION_VELOCITY + position * (127 - MIN_POSITION_VELOCITY);
+      return Math.max(1, Math.min(127, Math.round(velocity)));
+    }
+
+    // Mice always report 0.5, so only pens and touch screens give real pressure
+    if (grid.velocityMode === 'pressure' && e.pointerType !== 'mouse' && e.pressure > 0) {
+      return Math.max(1, Math.min(127, Math.round(e.pressure * 127)));
+    }
+
+    return fixedVelocity;
+  };
+
+  // Pointer events give each finger its own id and report pressure
+  const handlePointerDown = (note: number) => (e: React.PointerEvent) => {
+    if (isEditMode) return;
+    e.preventDefault();
+    e.currentTarget.setPointerCapture(e.pointerId);
+
+    const velocity = getVelocity(e);
+    heldNotesRef.current.set(e.pointerId, note);
+    sendNoteOn(channel, note, velocity, port);
+    setLit(note, velocity);
+  };
+
+  const handlePointerUp = (e: React.PointerEvent) => {
+    const note = heldNotesRef.current.get(e.pointerId);
+    if (note === undefined) return;
+
+    heldNotesRef.current.delete(e.pointerId);
+    sendNoteOff(channel, note, port);
+    setLit(note, 0);
+  };
+
+  // Release anything still held when the grid changes or goes away
+  useEffect(() => {
+    const heldNotes = heldNotesRef.current;
+    return () => {
+      heldNotes.forEach(note => sendNoteOff(channel, note, port));
+      heldNotes.clear();
+      setLitNotes(new Map());
+    };
+  }, [channel, port, notesKey, sendNoteOff]);
+
+  // Light pads from incoming notes
+  useEffect(() => {
+    if (isEditMode) return;
+
+    const unsubscribers = notes.map(note =>
+      subscribeToNote(channel, note, (velocity, isNoteOn) => setLit(note, isNoteOn ? velocity : 0))
+    );
+    return () => unsubscribers.forEach(unsubscribe => unsubscribe());
+  }, [channel, notesKey, isEditMode, subscribeToNote]);
+
+  return (
+    <Box sx={{
+      width: '100%',
+      height: '100%',
+      padding: 1,
+      userSelect: 'none',
+      position: 'relative',
+      display: 'grid',
+      gridTemplateColumns: `repeat(${grid.columns}, 1fr)`,
+      gridTemplateRows: `repeat(${grid.rows}, 1fr)`,
+      gap: 0.5,
+    }}>
+      {rows.flatMap((rowNotes, rowFromTop) => rowNotes.map((note, column) => {
+        const velocity = note !== null ? litNotes.get(note) : undefined;
+        const isLit = velocity !== undefined;
+
+        return (
+          <Box
+            key={`${rowFromTop}-${column}`}
+            onPointerDown={note !== null ? handlePointerDown(note) : undefined}
+            onPointerUp={handlePointerUp}
+            onPointerCancel={handlePointerUp}
+            sx={{
+              borderRadius: 1,
+              border: `1px solid ${alpha(color, note !== null ? 0.6 : 0.15)}`,
+              // Brighter for harder hits
+              backgroundColor: isLit ? alpha(color, 0.35 + (velocity / 127) * 0.65) : 'transparent',
+              boxShadow: isLit ? `0 0 6px ${color}` : theme.shadows[1],
+              display: 'flex',
+              alignItems: 'flex-end',
+              justifyContent: 'flex-start',
+              p: '2px 4px',
+              minWidth: 0,
+              minHeight: 0,
+              overflow: 'hidden',
+              cursor: isEditMode || note === null ? 'default' : 'pointer',
+              touchAction: 'none',
+            }}
+          >
+            {note !== null && (
+              <Typography
+                variant="caption"
+                sx={{
+                  fontSize: '0.6rem',
+                  color: isLit ? theme.palette.getContrastText(color) : 'text.secondary',
+                  lineHeight: 1,
+                }}
+              >
+                {getNoteName(note)}
+              </Typography>
+            )}
+          </Box>
+        );
+      }))}
+
+      {/* MIDI info in edit mode */}
+      {isEditMode && (
+        <Typography
+          variant="caption"
+          sx={{
+            position: 'absolute',
+            top: '5px',
+            left: '5px',
+            fontSize: '0.6rem',
+            backgroundColor: 'rgba(0,0,0,0.6)',
+            color: 'white',
+            padding: '2px 4px',
+            borderRadius: 1,
+            zIndex: 2,
+          }}
+        >
+          {config.label || 'Pads'} | {getNoteName(grid.baseNote)} | {channel}
+        </Typography>
+      )}
+    </Box>
+  );
+}
@@ -0,0 +1,264 @@
+import { useState, useEffect, useRef } from 'react';
+import { Box, IconButton, Typography, useTheme } from '@mui/material';
+import { ChevronLeft, ChevronRight } from '@mui/icons-material';
+import { ControlItem, ProgramEntry } from '../../types/index';
+import useMIDI from '../../hooks/useMIDI';
+import { saveControlValue, loadControlValue } from '../../utils/controlValueStorage';
+import { CC_BANK_SELECT_LSB, CC_BANK_SELECT_MSB } from '../../midi/midiHandler';
+
+interface MidiProgramChangeProps {
+  control: ControlItem;
+  onChange: (value: number) => void;
+  onSelect?: () => void;
+  isEditMode?: boolean;
+  isSelected?: boolean;
+  selectedMidiOutput?: string | null;
+}
+
+// Program currently active on the device, whether or not it is in the list
+interface ActiveProgram {
+  program: number;
+  bankMsb?: number;
+  bankLsb?: number;
+}
+
+// Check whether a named program matches what the device reported
+const matchesProgram = (entry: ProgramEntry, active: ActiveProgram) => {
+  return (
+    entry.program === active.program &&
+    (entry.bankMsb === undefined || entry.bankMsb === active.bankMsb) &&
+    (entry.bankLsb === undefined || entry.bankLsb === active.bankLsb)
+  );
+};
+
+export default function MidiProgramChange({
+  control,
+  onChange,
+  onSelect,
+  isEditMode = false,
+  isSelected = false,
+}: MidiProgramChangeProps) {
+  const { config } = control;
+  const {
+    sendProgramChange,
+    subscribeToProgramChange,
+    subscribeToCC
+  } = useMIDI();
+  const theme = useTheme();
+
+  const channel = config.midi?.channel ?? 1;  // Default to channel 1
+  const programs: ProgramEntry[] = config.programs ?? [];
+
+  // The control value is the program number last sent or received
+  const [activeProgram, setActiveProgram] = useState<ActiveProgram | null>(null);
+
+  // Bank select values seen on input, applied to the next Program Change
+  const incomingBankRef = useRef<{ msb?: number; lsb?: number }>({});
+
+  const activeIndex = activeProgram
+    ? programs.findIndex(entry => matchesProgram(entry, activeProgram))
+    : -1;
+  const activeEntry = activeIndex >= 0 ? programs[activeIndex] : null;
+
+  // Load saved program on mount
+  useEffect(() => {
+    const savedValue = loadControlValue(control.id);
+    if (savedValue !== null) {
+      const entry = programs.find(p => p.program === savedValue);
+      setActiveProgram(entry ?? { program: savedValue });
+    }
+  }, [control.id]);
+
+  // Follow incoming Bank Select and Program Change messages
+  useEffect(() => {
+    if (!config.midi || isEditMode) return;
+
+    const unsubscribes = [
+      subscribeToCC(channel, CC_BANK_SELECT_MSB, (value) => {
+        incomingBankRef.current.msb = value;
+      }),
+      subscribeToCC(channel, CC_BANK_SELECT_LSB, (value) => {
+        incomingBankRef.current.lsb = value;
+      }),
+      subscribeToProgramChange(channel, (program) => {
+        setActiveProgram({
+          program,
+          bankMsb: incomingBankRef.current.msb,
+          bankLsb: incomingBankRef.current.lsb,
+        });
+        saveControlValue(control.id, program);
+        onChange(program);
+      }),
+    ];
+
+    return () => {
+      unsubscribes.forEach(unsubscribe => unsubscribe());
+    };
+  }, [config.midi, channel, isEditMode]);
+
+  // Send a named program and make it the active one
+  const selectProgram = (entry: ProgramEntry) => {
+    if (config.midi) {
+      sendProgramChange(channel, entry.program, entry.bankMsb, entry.bankLsb, config.midi.port);
+    }
+
+    setActiveProgram({ program: entry.program, bankMsb: entry.bankMsb, bankLsb: entry.bankLsb });
+    saveControlValue(control.id, entry.program);
+    onChange(entry.program);
+  };
+
+  // Step through the program list, wrapping at either end
+  const stepProgram = (direction: 1 | -1) => {
+    if (isEditMode || programs.length === 0) return;
+
+    const startIndex = activeIndex >= 0 ? activeIndex : (direction === 1 ? -1 : 0);
+    const nextIndex = (startIndex + direction + programs.length) % programs.length;
+    selectProgram(programs[nextIndex]);
+  };
+
+  const handleClick = (e: React.MouseEvent) => {
+    if (isEditMode) {
+      onSelect?.();
+      return;
+    }
+
+    e.stopPropagation();
+    // Re-send the active program, or start at the top of the list
+    if (activeEntry) {
+      selectProgram(activeEntry);
+    } else if (programs.length > 0) {
+      selectProgram(programs[0]);
+    }
+  };
+
+  const color = config.color || theme.palette.primary.main;
+
+  const programName = activeEntry
+    ? activeEntry.name
+    : activeProgram
+      ? `Program ${activeProgram.program}`
+      : '—';
+
+  const formatBank = (program: ActiveProgram) => {
+    if (program.bankMsb === undefined && program.bankLsb === undefined) return '';
+    return `Bank ${program.bankMsb ?? '-'}:${program.bankLsb ?? '-'} · `;
+  };
+
+  return (
+    <Box
+      sx={{
+        width: '100%',
+        height: '100%',
+        display: 'flex',
+        alignItems: 'center',
+        padding: 1,
+        gap: 0.5,
+        opacity: isEditMode && !isSelected ? 0.7 : 1,
+        userSelect: 'none',
+      }}
+    >
+      <IconButton
+        size="small"
+        onClick={(e) => {
+          e.stopPropagation();
+          stepProgram(-1);
+        }}
+        disabled={isEditMode || programs.length === 0}
+        sx={{ color }}
+      >
+        <ChevronLeft />
+      </IconButton>
+
+      <Box
+        onClick={handleClick}
+        sx={{
+          flexGrow: 1,
+          height: '100%',
+          minWidth: 0,
+          borderRadius: 1,
+          border: `2px solid ${color}`,
+          display: 'flex',
+          flexDirection: 'column',
+          justifyContent: 'center',
+          alignItems: 'center',
+          cursor: 'pointer',
+          boxShadow: theme.shadows[4],
+          position: 'relative',
+          transition: 'all 0.1s ease-in-out',
+          '&:active': {
+            transform: isEditMode ? 'none' : 'scale(0.97)',
+          },
+        }}
+      >
+        <Typography
+          variant="caption"
+          sx={{
+            width: '100%',
+            textAlign: 'center',
+            whiteSpace: 'nowrap',
+            overflow: 'hidden',
+            color: 'text.secondary',
+            px: 1,
+          }}
+        >
+          {config.label || 'Program'}
+        </Typography>
+
+        <Typography
+          variant="body2"
+          sx={{
+            width: '100%',
+            textAlign: 'center',
+            whiteSpace: 'nowrap',
+            overflow: 'hidden',
+            fontWeight: 'bold',
+            color,
+            px: 1,
+          }}
+        >
+          {programName}
+        </Typography>
+
+        {activeProgram && (
+          <Typography
+            variant="caption"
+            sx={{ fontSize: '0.6rem', color: 'text.secondary' }}
+          >
+            {formatBank(activeProgram)}PC {activeProgram.program}
+          </Typography>
+        )}
+
+        {isEditMode && config.midi && (
+          <Typography
+            variant="caption"
+            sx={{
+              position: 'absolute',
+              bottom: '5px',
+              left: '5px',
+              fontSize: '0.6rem',
+              backgroundColor: 'rgba(0,0,0,0.6)',
+              color: 'white',
+              padding: '2px 4px',
+              borderRadius: 1,
+              zIndex: 2,
+            }}
+          >
+            PC | {config.midi.channel}
+          </Typography>
+        )}
+      </Box>
+
+      <IconButton
+        size="small"
+        onClick={(e) => {
+          e.stopPropagation();
+          stepProgram(1);
+        }}
+        disabled={isEditMode || programs.length === 0}
+        sx={{ color }}
+      >
+        <ChevronRight />
+      </IconButton>
+    </Box>
+  );
+}
@@ -0,0 +1,168 @@
+import { useState, useEffect, useRef } from 'react';
+import { Box, Typography, useTheme } from '@mui/material';
+import { ControlItem, SelectorOption } from '../../types/index';
+import useMIDI from '../../hooks/useMIDI';
+import { saveControlValue, loadControlValue } from '../../utils/controlValueStorage';
+import { midiSync } from '../../utils/midiSync';
+import { formatMidiAddress } from '../../utils/midiHelpers';
+import { findNearestOptionIndex } from '../../utils/selectorHelpers';
+
+interface MidiSelectorProps {
+  control: ControlItem;
+  onChange: (value: number) => void;
+  isEditMode?: boolean;
+  selectedMidiOutput?: string | null;
+}
+
+export default function MidiSelector({
+  control,
+  onChange,
+  isEditMode = false,
+  selectedMidiOutput
+}: MidiSelectorProps) {
+  const { config } = control;
+  const { sendControlValue, subscribeToControlValue } = useMIDI();
+  const theme = useTheme();
+
+  const options: SelectorOption[] = config.options ?? [];
+  const channel = config.midi?.channel ?? 1;
+  const cc = config.midi?.cc ?? 0;
+  // Only plain 7-bit CC takes part in midiSync
+  const isPlainCC = (config.midi?.messageType ?? 'cc') === 'cc' && !config.midi?.highResolution;
+  const color = config.color || theme.palette.primary.main;
+  const isVertical = config.orientation === 'vertical';
+
+  // The control value is the last CC value sent or received; values between
+  // options light the nearest segment
+  const [value, setValue] = useState<number | null>(null);
+  const activeIndex = findNearestOptionIndex(options, value);
+
+  const lastUserInteractionRef = useRef<number>(0);
+  const MIDI_DEBOUNCE_MS = 2000; // Ignore MIDI input for a moment after user interaction
+
+  // Load saved value on mount
+  useEffect(() => {
+    const savedValue = loadControlValue(control.id);
+    if (savedValue !== null) {
+      setValue(savedValue);
+      onChange(savedValue);
+    }
+  }, [control.id]);
+
+  const selectOption = (option: SelectorOption) => {
+    if (isEditMode) return;
+
+    setValue(option.value);
+    saveControlValue(control.id, option.value);
+    onChange(option.value);
+    lastUserInteractionRef.current = Date.now();
+
+    if (!config.midi || !selectedMidiOutput) return;
+    sendControlValue(config.midi, option.value);
+    if (isPlainCC) midiSync.notify(channel, cc, option.value);
+  };
+
+  // Incoming values pick the nearest segment
+  useEffect(() => {
+    if (!config.midi || isEditMode) return;
+
+    const follow = (incoming: number) => {
+      const timeSinceLastInteraction = Date.now() - lastUserInteractionRef.current;
+      if (timeSinceLastInteraction < MIDI_DEBOUNCE_MS) return;
+
+      setValue(incoming);
+      onChange(incoming);
+    };
+
+    const unsubscribeSync = isPlainCC ? midiSync.subscribe(channel, cc, follow) : () => {};
+    const unsubscribe = subscribeToControlValue(config.midi, follow);
+    return () => {
+      unsubscribeSync();
+      unsubscribe();
+    };
+  }, [config.midi, isEditMode, isPlainCC, channel, cc]);
+
+  return (
+    <Box sx={{
+      width: '100%',
+      height: '100%',
+      display: 'flex',
+      flexDirection: 'column',
+      padding: 1,
+      gap: 0.5,
+      userSelect: 'none',
+      position: 'relative',
+    }}>
+      <Typography
+        variant="body2"
+        sx={{ fontWeight: 'bold', overflow: 'hidden', whiteSpace: 'nowrap', textOverflow: 'ellipsis' }}
+      >
+        {config.label || 'Selector'}
+      </Typography>
+
+      <Box sx={{
+        flexGrow: 1,
+        minHeight: 0,
+        display: 'flex',
+        flexDirection: isVertical ? 'column' : 'row',
+        border: `2px solid ${color}`,
+        borderRadius: 1,
+        overflow: 'hidden',
+        boxShadow: theme.shadows[1],
+      }}>
+        {options.map((option, index) => {
+          const isActive = index === activeIndex;
+          return (
+            <Box
+              key={index}
+              onClick={() => selectOption(option)}
+              sx={{
+                flex: 1,
+                minWidth: 0,
+                minHeight: 0,
+                display: 'flex',
+                alignItems: 'center',
+                justifyContent: 'center',
+                px: 0.5,
+                backgroundColor: isActive ? color : 'transparent',
+                color: isActive ? theme.palette.getContrastText(color) : 'text.primary',
+                fontWeight: isActive ? 'bold' : 'normal',
+                cursor: isEditMode ? 'default' : 'pointer',
+                ...(index > 0 && (isVertical
+                  ? { borderTop: `1px solid ${color}` }
+                  : { borderLeft: `1px solid ${color}` })),
+              }}
+            >
+              <Typography
+                variant="caption"
+                sx={{ fontWeight: 'inherit', overflow: 'hidden', whiteSpace: 'nowrap', textOverflow: 'ellipsis' }}
+              >
+                {option.label}
+              </Typography>
+            </Box>
+          );
+        })}
+      </Box>
+
+      {/* MIDI info in edit mode */}
+      {isEditMode && config.midi && (
+        <Typography
+          variant="caption"
+          sx={{
+            position: 'absolute',
+            bottom: '5px',
+            left: '5px',
+            fontSize: '0.6rem',
+            backgroundColor: 'rgba(0,0,0,0.6)',
+            color: 'white',
+            padding: '2px 4px',
+            borderRadius: 1,
+            zIndex: 2,
+          }}
+        >
+          {formatMidiAddress(config.midi)} | {config.midi.channel}
+        </Typography>
+      )}
+    </Box>
+  );
+}
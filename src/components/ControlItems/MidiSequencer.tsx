@@ -0,0 +1,229 @@
+import { useState, useEffect, useRef } from 'react';
+import { Box, IconButton, Typography, useTheme, alpha } from '@mui/material';
+import { PlayArrow, Stop } from '@mui/icons-material';
+import { ControlItem, SequencerConfig } from '../../types/index';
+import useMIDI from '../../hooks/useMIDI';
+import useMIDIClock from '../../hooks/useMIDIClock';
+import { getNoteName } from '../../utils/midiHelpers';
+import { DEFAULT_SEQUENCER, getSwingDelay, MIN_SWING } from '../../utils/sequencerHelpers';
+import { CLOCK_DIVISIONS, PULSES_PER_QUARTER } from '../../midi/midiClock';
+
+// Steps per row of the pattern display
+const STEPS_PER_ROW = 16;
+
+interface MidiSequencerProps {
+  control: ControlItem;
+  onChange: (value: number) => void;
+  onSelect?: () => void;
+  onUpdateControl?: (id: string, updatedValues: Partial<ControlItem>) => void;
+  isEditMode?: boolean;
+  isSelected?: boolean;
+  selectedMidiOutput?: string | null;
+}
+
+export default function MidiSequencer({
+  control,
+  onSelect,
+  onUpdateControl,
+  isEditMode = false,
+}: MidiSequencerProps) {
+  const { config } = control;
+  const { sendNoteOn, sendNoteOff } = useMIDI();
+  const { clockState, start, stop, subscribeToTick } = useMIDIClock();
+  const theme = useTheme();
+
+  const sequencer: SequencerConfig = config.sequencer ?? DEFAULT_SEQUENCER;
+  const channel = config.midi?.channel ?? 1;
+  const port = config.midi?.port;
+  const color = config.color || theme.palette.primary.main;
+  const isExternal = clockState.source === 'external';
+
+  const [currentStep, setCurrentStep] = useState<number | null>(null);
+
+  // The tick handler reads these so pattern and tempo edits apply while playing
+  const settingsRef = useRef({ sequencer, channel, port, bpm: clockState.bpm });
+  settingsRef.current = { sequencer, channel, port, bpm: clockState.bpm };
+
+  // Notes and timers still to finish, so stopping never leaves a note hanging
+  const timersRef = useRef<Set<ReturnType<typeof setTimeout>>>(new Set());
+  const soundingRef = useRef<Map<number, { channel: number; port?: string }>>(new Map());
+
+  const later = (callback: () => void, delayMs: number) => {
+    const timer = setTimeout(() => {
+      timersRef.current.delete(timer);
+      callback();
+    }, delayMs);
+    timersRef.current.add(timer);
+  };
+
+  const releaseAll = () => {
+    timersRef.current.forEach(timer => clearTimeout(timer));
+    timersRef.current.clear();
+    soundingRef.current.forEach((target, note) => sendNoteOff(target.channel, note, target.port));
+    soundingRef.current.clear();
+  };
+
+  // Play each step on its division of the clock. Swing and gate are timed
+  // from the tempo, so they are finer than the 24 pulses per beat.
+  useEffect(() => {
+    if (!clockState.running || isEditMode) {
+      setCurrentStep(null);
+      releaseAll();
+      return;
+    }
+
+    const unsubscribe = subscribeToTick((tick) => {
+      const { sequencer, channel, port, bpm } = settingsRef.current;
+      const pulsesPerStep = CLOCK_DIVISIONS[sequencer.division ?? '1/16'];
+      if (tick % pulsesPerStep !== 0 || sequencer.steps.length === 0) return;
+
+      const stepIndex = (tick / pulsesPerStep) % sequencer.steps.length;
+      const step = sequencer.steps[stepIndex];
+      const stepMs = (60000 / bpm) * (pulsesPerStep / PULSES_PER_QUARTER);
+      setCurrentStep(stepIndex);
+      if (!step?.active) return;
+
+      later(() => {
+        // Cut a note still held from the previous step before playing it again
+        if (soundingRef.current.has(step.note)) {
+          sendNoteOff(channel, step.note, port);
+        }
+        sendNoteOn(channel, step.note, step.velocity, port);
+        const sounding = { channel, port };
+        soundingRef.current.set(step.note, sounding);
+
+        later(() => {
+          // Leave it alone if a later step has retriggered the note
+          if (soundingRef.current.get(step.note) !== sounding) return;
+          soundingRef.current.delete(step.note);
+          sendNoteOff(channel, step.note, port);
+        }, step.gate * stepMs);
+      }, getSwingDelay(sequencer.swing ?? MIN_SWING, stepIndex) * stepMs);
+    });
+
+    return () => {
+      unsubscribe();
+      releaseAll();
+    };
+  }, [clockState.running, isEditMode, subscribeToTick]);
+
+  const togglePlay = (e: React.MouseEvent) => {
+    e.stopPropagation();
+    if (isEditMode) {
+      onSelect?.();
+      return;
+    }
+    if (clockState.running) {
+      stop();
+    } else {
+      start();
+    }
+  };
+
+  // Steps switch on and off from the control too, so the pattern can be
+  // changed while it plays
+  const toggleStep = (index: number) => {
+    if (isEditMode) return;
+
+    onUpdateControl?.(control.id, {
+      config: {
+        ...config,
+        sequencer: {
+          ...sequencer,
+          steps: sequencer.steps.map((step, i) => i === index ? { ...step, active: !step.active } : step),
+        },
+      },
+    });
+  };
+
+  const rows = Math.ceil(sequencer.steps.length / STEPS_PER_ROW);
+  const columns = Math.min(sequencer.steps.length, STEPS_PER_ROW);
+
+  return (
+    <Box
+      onClick={() => isEditMode && onSelect?.()}
+      sx={{
+        width: '100%',
+        height: '100%',
+        display: 'flex',
+        flexDirection: 'column',
+        padding: 1,
+        gap: 0.5,
+        userSelect: 'none',
+        position: 'relative',
+      }}
+    >
+      <Box sx={{ display: 'flex', alignItems: 'center', gap: 0.5 }}>
+        <IconButton
+          size="small"
+          onClick={togglePlay}
+          disabled={isExternal}
+          sx={{ color, p: 0.25 }}
+          title={clockState.running ? 'Stop' : 'Start'}
+        >
+          {clockState.running ? <Stop fontSize="small" /> : <PlayArrow fontSize="small" />}
+        </IconButton>
+        <Typography
+          variant="body2"
+          sx={{ fontWeight: 'bold', flexGrow: 1, minWidth: 0, overflow: 'hidden', whiteSpace: 'nowrap', textOverflow: 'ellipsis' }}
+        >
+          {config.label || 'Sequencer'}
+        </Typography>
+        <Typography variant="caption" sx={{ fontSize: '0.6rem', color: 'text.secondary' }}>
+          {sequencer.division ?? '1/16'} | {isExternal ? 'EXT' : 'INT'}
+        </Typography>
+      </Box>
+
+      <Box sx={{
+        flexGrow: 1,
+        minHeight: 0,
+        display: 'grid',
+        gridTemplateColumns: `repeat(${columns}, 1fr)`,
+        gridTemplateRows: `repeat(${rows}, 1fr)`,
+        gap: '2px',
+      }}>
+        {sequencer.steps.map((step, index) => {
+          const isCurrent = index === currentStep;
+          return (
+            <Box
+              key={index}
+              onClick={() => toggleStep(index)}
+              title={step.active ? `${getNoteName(step.note)} vel ${step.velocity}` : undefined}
+              sx={{
+                borderRadius: 0.5,
+                minWidth: 0,
+                cursor: isEditMode ? 'inherit' : 'pointer',
+                // Darker for softer steps
+                backgroundColor: step.active
+                  ? alpha(color, 0.3 + (step.velocity / 127) * 0.7)
+                  : index % 4 === 0 ? 'action.selected' : 'action.hover',
+                outline: isCurrent ? `2px solid ${theme.palette.text.primary}` : 'none',
+                outlineOffset: '-2px',
+              }}
+            />
+          );
+        })}
+      </Box>
+
+      {/* MIDI info in edit mode */}
+      {isEditMode && (
+        <Typography
+          variant="caption"
+          sx={{
+            position: 'absolute',
+            bottom: '5px',
+            left: '5px',
+            fontSize: '0.6rem',
+            backgroundColor: 'rgba(0,0,0,0.6)',
+            color: 'white',
+            padding: '2px 4px',
+            borderRadius: 1,
+            zIndex: 2,
+          }}
+        >
+          {sequencer.steps.length} steps | {channel}
+        </Typography>
+      )}
+    </Box>
+  );
+}
@@ -1,9 +1,18 @@
-import { useState, useEffect, useRef, useMemo } from 'react';
+import { useState, useEffect, useRef } from 'react';
 import { Box, Typography, useTheme } from '@mui/material';
 import { ControlItem } from '../../types/index';
 import useMIDI from '../../hooks/useMIDI';
+import useControlSender from '../../hooks/useControlSender';
 import { saveControlValue, loadControlValue } from '../../utils/controlValueStorage';
 import { midiSync } from '../../utils/midiSync';
+import { PITCH_BEND_CENTER } from '../../midi/midiHandler';
+import { formatMidiAddress } from '../../utils/midiHelpers';
+import { oscHandler } from '../../osc/oscHandler';
+import { lfoEngine } from '../../midi/lfoEngine';
+import { formatControlValue, getControlRange, snapToStep as snapValueToStep } from '../../utils/continuousControlHelpers';
+
+// Distance from the centre (as a fraction of the range) that snaps to it
+const CENTER_DETENT_RANGE = 0.03;
 
 interface MidiSliderProps {
   control: ControlItem;
@@ -19,23 +28,25 @@ export default function MidiSlider({
   selectedMidiOutput
 }: MidiSliderProps) {
   const { config } = control;
-  const { sendCC, devices, selectInputDevice, subscribeToCC } = useMIDI();
+  const {
+    sendCC,
+    subscribeToControlValue
+  } = useMIDI();
+  const { sendValue, sendValueNow } = useControlSender(control, selectedMidiOutput);
   const [localValue, setLocalValue] = useState(config.value);
   const theme = useTheme();
   const sliderRef = useRef<HTMLDivElement>(null);
   
   const channel = config.midi?.channel ?? 1;  // Default to channel 1
   const cc = config.midi?.cc ?? 0;  // Default to CC 0
-  const minVal = config.midi?.min ?? 0; // Use nullish coalescing
-  const maxVal = config.midi?.max ?? 127;
-  
-  // Validate and get the actual min/max values considering their order
-  const [actualMin, actualMax] = useMemo(() => {
-    return [
-      Math.min(minVal, maxVal),
-      Math.max(minVal, maxVal)
-    ];
-  }, [minVal, maxVal]);
+  const { isPitchBend, isPlainCC, min: actualMin, max: actualMax } = getControlRange(config.midi);
+
+  const lfo = config.sliderConfig?.lfo;
+  // The LFO can be paused from the slider without changing the preset
+  const [isLfoPaused, setIsLfoPaused] = useState(false);
+  const isLfoActive = !!lfo?.enabled && !isLfoPaused && !isEditMode;
+  const lfoRef = useRef(lfo);
+  lfoRef.current = lfo;
 
   const color = config.color || theme.palette.primary.main;
   const fillPercentage = ((localValue - actualMin) / (actualMax - actualMin)) * 100;
@@ -54,41 +65,33 @@ export default function MidiSlider({
     }
   }, [control.id]);
 
-  const snapToStep = (value: number) => {
-    if (!config.sliderConfig?.steps) return value;
-    
-    const range = actualMax - actualMin;
-    const stepSize = range / config.sliderConfig.steps;
-    
-    // Calculate how many steps we are from the minimum
-    const steps = Math.round((value - actualMin) / stepSize);
-    
-    // Convert steps back to value
-    return actualMin + (steps * stepSize);
-  };
+  const snapToStep = (value: number) =>
+    snapValueToStep(value, actualMin, actualMax, config.sliderConfig?.steps);
 
-  // Allow any combination of min/max values including zero and negatives
-  const formatDisplayValue = (value: number) => {
-    if (isEditMode) return Math.round(value);
+  // Pitch bend shows the signed offset from the centre, in place of the
+  // default 0-100 view mode every new slider gets
+  const formatDisplayValue = (value: number) => isEditMode
+    ? Math.round(value)
+    : isPitchBend
+      ? formatControlValue(value, actualMin, actualMax, undefined, PITCH_BEND_CENTER)
+      : formatControlValue(value, actualMin, actualMax, config.sliderConfig?.viewMode);
 
-    if (config.sliderConfig?.viewMode) {
-      const { minValue, maxValue, extraText, decimalPlaces = 1 } = config.sliderConfig.viewMode;
-      
-      if (minValue !== undefined && maxValue !== undefined) {
-        const range = maxValue - minValue;
-        const percentage = range === 0 
-          ? 0 
-          : (value - actualMin) / (actualMax - actualMin);
-          
-        const displayValue = minValue + (range * percentage);
-        return `${displayValue.toFixed(decimalPlaces)}${extraText || ''}`;
-      }
-    }
+  // Snap pitch bend values close to the centre onto it
+  const applyCenterDetent = (value: number) => {
+    if (!isPitchBend || !config.sliderConfig?.centerDetent) return value;
 
-    // Default percentage display
-    const range = actualMax - actualMin;
-    const percentage = range === 0 ? 0 : ((value - actualMin) / range) * 100;
-    return `${Math.round(percentage)}%`;
+    const detentRange = (actualMax - actualMin) * CENTER_DETENT_RANGE;
+    return Math.abs(value - PITCH_BEND_CENTER) <= detentRange ? PITCH_BEND_CENTER : value;
+  };
+
+  // Return a spring-loaded pitch bend slider to the centre on release
+  const releaseSlider = () => {
+    if (!isPitchBend || !config.sliderConfig?.springBack) return;
+
+    setLocalValue(PITCH_BEND_CENTER);
+    saveControlValue(control.id, PITCH_BEND_CENTER);
+    sendValue(PITCH_BEND_CENTER);
+    onChange(PITCH_BEND_CENTER);
   };
 
   // Add debounce ref and time constant
@@ -129,19 +132,14 @@ export default function MidiSlider({
     
     // Snap to step if configured
     value = snapToStep(value);
+    value = applyCenterDetent(value);
     
     // Ensure value is within bounds after snapping
     value = Math.max(actualMin, Math.min(actualMax, value));
     
     setLocalValue(value);
     saveControlValue(control.id, value);
-    
-    if (config.midi && selectedMidiOutput) {
-      // Ensure MIDI CC values are integers
-      const midiValue = Math.round(value);
-      sendCC(channel, cc, midiValue);
-      midiSync.notify(channel, cc, midiValue);
-    }
+    sendValue(value);
     onChange(value);
 
     // Record the interaction time
@@ -173,6 +171,7 @@ export default function MidiSlider({
       
       document.removeEventListener('mousemove', handleMouseMove);
       document.removeEventListener('mouseup', handleMouseUp);
+      releaseSlider();
     };
     
     document.addEventListener('mousemove', handleMouseMove);
@@ -209,6 +208,7 @@ export default function MidiSlider({
       document.removeEventListener('touchmove', handleTouchMove);
       document.removeEventListener('touchend', handleTouchEnd);
       document.removeEventListener('touchcancel', handleTouchEnd);
+      releaseSlider();
     };
 
     document.addEventListener('touchmove', handleTouchMove, { passive: false });
@@ -216,9 +216,9 @@ export default function MidiSlider({
     document.addEventListener('touchcancel', handleTouchEnd); // Also handle touch cancellation
   };
 
-  // Subscribe to sync events
+  // Subscribe to sync events (sync carries 7-bit CC values, so other modes opt out)
   useEffect(() => {
-    if (!config.midi || isEditMode) return;
+    if (!config.midi || isEditMode || !isPlainCC) return;
 
     const unsubscribe = midiSync.subscribe(
       channel,
@@ -237,66 +237,92 @@ export default function MidiSlider({
     );
 
     return unsubscribe;
-  }, [channel, cc, isEditMode]);
+  }, [channel, cc, isEditMode, isPlainCC]);
+
+  // Animate the slider from its LFO. Sends are throttled by the engine and
+  // skipped when the rounded value hasn't changed.
+  const sendValueNowRef = useRef(sendValueNow);
+  sendValueNowRef.current = sendValueNow;
+  const midiRef = useRef(config.midi);
+  midiRef.current = config.midi;
+
+  useEffect(() => {
+    if (!isLfoActive) return;
+
+    let lastSentValue: number | null = null;
+    const toValue = (position: number) => snapToStep(actualMin + position * (actualMax - actualMin));
+    // Grabbing the slider takes over from the LFO for a moment
+    const isUserHolding = () => Date.now() - lastUserInteractionRef.current < MIDI_DEBOUNCE_MS;
+
+    return lfoEngine.start(
+      control.id,
+      () => lfoRef.current!,
+      () => midiRef.current,
+      (position) => {
+        if (!isUserHolding()) setLocalValue(toValue(position));
+      },
+      (position) => {
+        const value = Math.round(toValue(position));
+        if (isUserHolding() || value === lastSentValue) return;
+        lastSentValue = value;
+        sendValueNowRef.current(value);
+      }
+    );
+  }, [isLfoActive, control.id, actualMin, actualMax, config.sliderConfig?.steps]);
+
+  // Incoming OSC moves the slider the same way incoming MIDI does
+  useEffect(() => {
+    if (!config.osc || isEditMode) return;
+
+    return oscHandler.subscribeToControlValue(config.osc, actualMin, actualMax, (value) => {
+      const timeSinceLastInteraction = Date.now() - lastUserInteractionRef.current;
+      if (timeSinceLastInteraction < MIDI_DEBOUNCE_MS) return;
+
+      setLocalValue(value);
+      onChange(value);
+    });
+  }, [config.osc, actualMin, actualMax, isEditMode]);
 
   // Subscribe to MIDI messages when component mounts
   useEffect(() => {
-    if (!config.midi || isEditMode) return;
-
-    const loadInitialValue = async () => {
-      try {
-        if (selectedMidiOutput && config.midi) {
-          // Find input device matching the output
-          const outputDevice = devices.find(d => d.id === selectedMidiOutput);
-          if (!outputDevice) return;
-
-          const inputDevice = devices.find(d => 
-            d.type === 'input' && d.name === outputDevice.name
-          );
-
-          if (inputDevice) {
-            // Select input device and subscribe to CC messages
-            selectInputDevice(inputDevice.id);
-            const unsubscribe = subscribeToCC(
-              channel,
-              cc,
-              (value) => {
-                // Check if we're within the debounce period
-                const timeSinceLastInteraction = Date.now() - lastUserInteractionRef.current;
-                if (timeSinceLastInteraction < MIDI_DEBOUNCE_MS) {
-                  console.debug('Ignoring MIDI input during debounce period');
-                  return;
-                }
-                
-                // Make sure incoming values are integers too
-                const intValue = Math.round(value);
-                setLocalValue(intValue);
-                onChange(intValue);
-              }
-            );
-
-            // Send a request for the current value if the device supports it
-            // Note: Not all devices support this feature
-            try {
-              // Ensure request CC values are integers
-              const success = sendCC(channel, 0x62, Math.round(cc));
-              if (!success) {
-                console.debug('Device might not support value request');
-              }
-            } catch (err) {
-              console.debug('Value request not supported by device');
-            }
-
-            return unsubscribe;
-          }
-        }
-      } catch (err) {
-        console.error('Error setting up MIDI monitoring:', err);
+    if (!config.midi || isEditMode || !selectedMidiOutput) return;
+
+    const handleIncomingValue = (value: number) => {
+      // Check if we're within the debounce period
+      const timeSinceLastInteraction = Date.now() - lastUserInteractionRef.current;
+      if (timeSinceLastInteraction < MIDI_DEBOUNCE_MS) {
+        console.debug('Ignoring MIDI input during debounce period');
+        return;
       }
+      
+      // Make sure incoming values are integers too
+      const intValue = Math.round(value);
+      setLocalValue(intValue);
+      onChange(intValue);
     };
 
-    loadInitialValue();
-  }, [config.midi, selectedMidiOutput, isEditMode, devices, channel, cc]);
+    // Input devices are selected centrally, so just subscribe. The unsubscribe
+    // function is returned directly so this slider's listener is removed on
+    // cleanup instead of piling up next to other controls on the same CC.
+    const unsubscribe = subscribeToControlValue(config.midi, handleIncomingValue);
+    if (!isPlainCC) {
+      return unsubscribe;
+    }
+
+    // Send a request for the current value if the device supports it
+    // Note: Not all devices support this feature
+    try {
+      // Ensure request CC values are integers
+      const success = sendCC(channel, 0x62, Math.round(cc), config.midi.port);
+      if (!success) {
+        console.debug('Device might not support value request');
+      }
+    } catch (err) {
+      console.debug('Value request not supported by device');
+    }
+
+    return unsubscribe;
+  }, [config.midi, selectedMidiOutput, isEditMode, channel, cc, isPlainCC]);
 
   return (
     <Box sx={{
@@ -426,6 +452,33 @@ export default function MidiSlider({
           </Typography>
         </Box>
 
+        {/* LFO badge, tap to pause or resume */}
+        {lfo?.enabled && (
+          <Box
+            onMouseDown={(e) => e.stopPropagation()}
+            onTouchStart={(e) => e.stopPropagation()}
+            onClick={(e) => {
+              e.stopPropagation();
+              if (!isEditMode) setIsLfoPaused(paused => !paused);
+            }}
+            sx={{
+              position: 'absolute',
+              top: '5px',
+              left: '5px',
+              backgroundColor: isLfoActive ? color : 'rgba(0,0,0,0.6)',
+              color: isLfoActive ? theme.palette.getContrastText(color) : 'white',
+              padding: '2px 4px',
+              borderRadius: 1,
+              zIndex: 2,
+              fontSize: '0.6rem',
+              fontWeight: 'bold',
+              cursor: isEditMode ? 'default' : 'pointer',
+            }}
+          >
+            LFO
+          </Box>
+        )}
+
         {/* MIDI info in edit mode */}
         {isEditMode && config.midi && (
           <Typography 
@@ -442,7 +495,7 @@ export default function MidiSlider({
               zIndex: 2,
             }}
           >
-            {config.midi.cc} | {config.midi.channel}
+            {formatMidiAddress(config.midi)} | {config.midi.channel}
           </Typography>
         )}
       </Box>
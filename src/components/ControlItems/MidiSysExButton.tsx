@@ -0,0 +1,155 @@
+import { useState } from 'react';
+import { Box, Typography, useTheme } from '@mui/material';
+import { ControlItem } from '../../types/index';
+import useMIDI from '../../hooks/useMIDI';
+import { loadControlValue } from '../../utils/controlValueStorage';
+import { buildSysExMessage, formatSysExHex } from '../../utils/sysexHelpers';
+
+interface MidiSysExButtonProps {
+  control: ControlItem;
+  onChange: (value: number) => void;
+  onSelect?: () => void;
+  isEditMode?: boolean;
+  isSelected?: boolean;
+  selectedMidiOutput?: string | null;
+}
+
+export default function MidiSysExButton({
+  control,
+  onChange,
+  onSelect,
+  isEditMode = false,
+  isSelected = false,
+}: MidiSysExButtonProps) {
+  const { config } = control;
+  const { sendSysEx } = useMIDI();
+  const theme = useTheme();
+
+  const [isPressed, setIsPressed] = useState(false);
+  const [midiStatus, setMidiStatus] = useState<'ready'|'sent'|'error'>('ready');
+
+  // Fill {value} from the linked control's last value, if there is one
+  const getLinkedValue = () => {
+    const linkedId = config.sysex?.linkedControlId;
+    if (!linkedId) return 0;
+    return loadControlValue(linkedId) ?? 0;
+  };
+
+  const send = () => {
+    if (!config.sysex) return;
+
+    const value = getLinkedValue();
+    const message = buildSysExMessage(config.sysex, value);
+    if (!message) {
+      console.warn(`Invalid SysEx message for control ${control.id}: ${config.sysex.message}`);
+      setMidiStatus('error');
+      return;
+    }
+
+    console.debug(`SysEx: ${formatSysExHex(message)}`);
+    setMidiStatus(sendSysEx(message, config.midi?.port) ? 'sent' : 'error');
+    onChange(value);
+  };
+
+  const handlePress = (e: React.MouseEvent | React.TouchEvent) => {
+    // In edit mode, we delegate the event handling to the parent
+    if (isEditMode) {
+      onSelect?.();
+      return;
+    }
+
+    e.stopPropagation();
+    setIsPressed(true);
+    send();
+  };
+
+  const handleRelease = (e: React.MouseEvent | React.TouchEvent) => {
+    if (isEditMode) return;
+
+    e.stopPropagation();
+    setIsPressed(false);
+  };
+
+  const color = config.color || theme.palette.primary.main;
+  const borderColor = isEditMode
+    ? (isSelected ? theme.palette.primary.main : 'rgba(255,255,255,0.3)')
+    : midiStatus === 'error' ? theme.palette.error.main : color;
+
+  return (
+    <Box
+      sx={{
+        width: '100%',
+        height: '100%',
+        display: 'flex',
+        alignItems: 'center',
+        justifyContent: 'center',
+        padding: 1,
+        cursor: 'pointer',
+        opacity: isEditMode && !isSelected ? 0.7 : 1,
+      }}
+      onMouseDown={handlePress}
+      onMouseUp={handleRelease}
+      onMouseLeave={(e) => isPressed && handleRelease(e)}
+      onTouchStart={handlePress}
+      onTouchEnd={handleRelease}
+      style={isEditMode ? { pointerEvents: isSelected ? 'auto' : 'none' } : undefined}
+    >
+      <Box
+        sx={{
+          width: '100%',
+          height: '100%',
+          borderRadius: 1,
+          border: `2px solid ${borderColor}`,
+          backgroundColor: isPressed ? color : 'transparent',
+          display: 'flex',
+          flexDirection: 'column',
+          justifyContent: 'center',
+          alignItems: 'center',
+          transition: 'all 0.1s ease-in-out',
+          boxShadow: isPressed ? 'none' : theme.shadows[4],
+          transform: isPressed ? 'scale(0.97)' : 'scale(1)',
+          position: 'relative',
+        }}
+      >
+        <Typography
+          variant="body2"
+          align="center"
+          sx={{
+            width: '100%',
+            whiteSpace: 'nowrap',
+            overflow: 'hidden',
+            userSelect: 'none',
+            color: isPressed ? theme.palette.getContrastText(color) : 'text.primary',
+            fontWeight: isPressed ? 'bold' : 'normal',
+            px: 1,
+          }}
+        >
+          {config.label || 'SysEx'}
+        </Typography>
+
+        {isEditMode && config.sysex && (
+          <Typography
+            variant="caption"
+            sx={{
+              position: 'absolute',
+              bottom: '5px',
+              left: '5px',
+              right: '5px',
+              fontSize: '0.6rem',
+              backgroundColor: 'rgba(0,0,0,0.6)',
+              color: 'white',
+              padding: '2px 4px',
+              borderRadius: 1,
+              zIndex: 2,
+              whiteSpace: 'nowrap',
+              overflow: 'hidden',
+              textOverflow: 'ellipsis',
+            }}
+          >
+            {config.sysex.message || 'SysEx'}
+          </Typography>
+        )}
+      </Box>
+    </Box>
+  );
+}
@@ -2,6 +2,7 @@ import { useState, useEffect, useRef } from 'react';
 import { Box, TextField, Typography } from '@mui/material';
 import { ControlItem } from '../../types/index';
 import useMIDI from '../../hooks/useMIDI';
+import { CC14_MAX } from '../../midi/midiHandler';
 
 interface MidiTextBoxProps {
   control: ControlItem;
@@ -17,7 +18,7 @@ export default function MidiTextBox({
   selectedMidiOutput
 }: MidiTextBoxProps) {
   const { config } = control;
-  const { sendCC, subscribeToCC } = useMIDI(); // Add subscribeToCC to destructuring
+  const { sendControlValue, subscribeToControlValue } = useMIDI();
   
   // Ensure initial value is a valid number and converted to string
   const initialValue = typeof config.value === 'number' && !isNaN(config.value) 
@@ -27,8 +28,9 @@ export default function MidiTextBox({
   const [inputValue, setInputValue] = useState(initialValue);
   
   // Set min and max values from config or use defaults
+  const isHighResolution = !!config.midi?.highResolution;
   const minVal = config.midi?.min !== undefined ? config.midi.min : 0;
-  const maxVal = config.midi?.max !== undefined ? config.midi.max : 127;
+  const maxVal = config.midi?.max !== undefined ? config.midi.max : (isHighResolution ? CC14_MAX : 127);
 
   // Add defaults for MIDI channel and CC
   const channel = config.midi?.channel ?? 1;  // Default to channel 1
@@ -50,9 +52,8 @@ export default function MidiTextBox({
   useEffect(() => {
     if (!config.midi || isEditMode) return;
 
-    const unsubscribe = subscribeToCC(
-      channel,
-      cc,
+    const unsubscribe = subscribeToControlValue(
+      config.midi,
       (value: number) => { // Add type annotation
         // Check if we're within the debounce period
         const timeSinceLastInteraction = Date.now() - lastUserInteractionRef.current;
@@ -67,7 +68,7 @@ export default function MidiTextBox({
     );
 
     return unsubscribe;
-  }, [channel, cc, isEditMode, onChange]);
+  }, [config.midi, channel, cc, isEditMode, isHighResolution, onChange]);
   
   const handleChange = (event: React.ChangeEvent<HTMLInputElement>) => {
     const value = event.target.value;
@@ -93,8 +94,7 @@ export default function MidiTextBox({
     // Only update if the value has changed
     if (newValue !== config.value) {
       if (config.midi && selectedMidiOutput) {
-        // Add null checks for channel and cc
-        sendCC(channel, cc, newValue);
+        sendControlValue(config.midi, newValue);
       }
       onChange(newValue);
     }
@@ -5,6 +5,9 @@ import useMIDI from '../../hooks/useMIDI';
 import { toggleHandler } from '../../midi/toggleHandler';
 import { saveControlValue, loadControlValue } from '../../utils/controlValueStorage';
 import { midiSync } from '../../utils/midiSync';
+import { formatMidiAddress } from '../../utils/midiHelpers';
+import { DEFAULT_VELOCITY } from '../../midi/midiHandler';
+import { oscHandler } from '../../osc/oscHandler';
 
 interface MidiToggleProps {
   control: ControlItem;
@@ -25,8 +28,7 @@ export default function MidiToggle({
 }: MidiToggleProps) {
   const { config } = control;
   const { 
-    subscribeToCC, 
-    selectInputDevice, 
+    subscribeToControlValue, 
     selectOutputDevice,
     sendCC,  // Add this
     devices, 
@@ -37,8 +39,12 @@ export default function MidiToggle({
   // Add defaults for MIDI channel and CC
   const channel = config.midi?.channel ?? 1;  // Default to channel 1
   const cc = config.midi?.cc ?? 0;  // Default to CC 0
-  const onValue = config.midi?.max ?? 127;
-  const offValue = config.midi?.min ?? 0;
+  // In note mode the toggle latches a note: on is the velocity, off is Note Off
+  const isNoteMode = config.midi?.messageType === 'note';
+  const onValue = isNoteMode ? Number(config.midi?.velocity ?? DEFAULT_VELOCITY) : config.midi?.max ?? 127;
+  const offValue = isNoteMode ? 0 : config.midi?.min ?? 0;
+  // Only plain 7-bit CC takes part in midiSync and the device value request
+  const isPlainCC = (config.midi?.messageType ?? 'cc') === 'cc' && !config.midi?.highResolution;
   
   const [checked, setChecked] = useState(config.value === onValue);
   const [midiStatus, setMidiStatus] = useState<'ready'|'sent'|'error'>('ready');
@@ -82,49 +88,34 @@ export default function MidiToggle({
   useEffect(() => {
     if (!config.midi || isEditMode) return;
 
-    // Find corresponding input device
-    const outputDevice = devices.find(d => d.id === selectedMidiOutput);
-    if (!outputDevice) return;
-
-    // Find input device with same name
-    const inputDevice = devices.find(d => 
-      d.type === 'input' && 
-      d.name === outputDevice.name
+    // Input devices are selected centrally, so just subscribe
+    const unsubscribe = subscribeToControlValue(
+      config.midi,
+      (value: number) => {
+        console.log(`Received CC value ${value} for channel ${channel} cc ${cc}`);
+        // Incoming notes light the toggle at any velocity
+        setChecked(isNoteMode ? value > 0 : value === onValue);
+        onChange(value);
+      }
     );
 
-    if (!inputDevice) {
-      console.warn(`No matching input device found for ${outputDevice.name}`);
-      return;
-    }
-
-    // Select the input device and subscribe to CC changes
-    if (selectInputDevice(inputDevice.id)) {
-      const unsubscribe = subscribeToCC(
-        channel,
-        cc,
-        (value: number) => {
-          console.log(`Received CC value ${value} for channel ${channel} cc ${cc}`);
-          setChecked(value === onValue);
-          onChange(value);
-        }
-      );
-
-      // Request current value
+    // Request current value
+    if (isPlainCC && selectedMidiOutput) {
       try {
-        sendCC(channel, 0x62, cc);
+        sendCC(channel, 0x62, cc, config.midi.port);
       } catch (err) {
         console.debug('Value request not supported by device');
       }
-
-      return () => {
-        unsubscribe();
-      };
     }
-  }, [config.midi, selectedMidiOutput, devices, onValue, isEditMode, selectInputDevice, subscribeToCC, onChange]);
+
+    return () => {
+      unsubscribe();
+    };
+  }, [config.midi, selectedMidiOutput, onValue, isNoteMode, isEditMode, isPlainCC, subscribeToControlValue, onChange]);
 
   // Subscribe to sync events
   useEffect(() => {
-    if (!config.midi || isEditMode) return;
+    if (!config.midi || isEditMode || !isPlainCC) return;
 
     const unsubscribe = midiSync.subscribe(
       channel,
@@ -143,7 +134,18 @@ export default function MidiToggle({
     );
 
     return unsubscribe;
-  }, [channel, cc, isEditMode, onValue]);
+  }, [channel, cc, isEditMode, isPlainCC, onValue]);
+
+  // Mirror incoming OSC like MIDI, switching on when closer to the on value
+  useEffect(() => {
+    if (!config.osc || isEditMode) return;
+
+    return oscHandler.subscribeToControlValue(config.osc, offValue, onValue, (value) => {
+      const isOn = Math.abs(value - onValue) < Math.abs(value - offValue);
+      setChecked(isOn);
+      onChange(isOn ? onValue : offValue);
+    });
+  }, [config.osc, onValue, offValue, isEditMode]);
 
   // Load saved value on mount
   useEffect(() => {
@@ -174,6 +176,9 @@ export default function MidiToggle({
     
     // Save the new value
     saveControlValue(control.id, newValue);
+    if (config.osc) {
+      oscHandler.sendControlValue(config.osc, newValue, offValue, onValue);
+    }
     
     if (config.midi) {
       // Optimistically update UI
@@ -184,7 +189,8 @@ export default function MidiToggle({
         const success = await toggleHandler.sendToggleState(
           channel,
           cc,
-          newValue
+          newValue,
+          config.midi
         );
         
         if (!success) {
@@ -196,7 +202,9 @@ export default function MidiToggle({
         }
 
         // Add sync notification after successful MIDI send
-        midiSync.notify(channel, cc, newValue);
+        if (isPlainCC) {
+          midiSync.notify(channel, cc, newValue);
+        }
       } catch (err) {
         console.error('Toggle error:', err);
         setMidiStatus('error');
@@ -240,7 +248,7 @@ export default function MidiToggle({
           zIndex: 2,
         }}
       >
-        {config.midi.cc} | {config.midi.channel}
+        {formatMidiAddress(config.midi)} | {config.midi.channel}
       </Typography>
     );
   };
@@ -0,0 +1,178 @@
+import { useState, useEffect } from 'react';
+import { Box, IconButton, Button, Typography, useTheme } from '@mui/material';
+import { PlayArrow, Stop, SkipNext, Remove, Add } from '@mui/icons-material';
+import { ControlItem } from '../../types/index';
+import useMIDIClock from '../../hooks/useMIDIClock';
+import { saveControlValue, loadControlValue } from '../../utils/controlValueStorage';
+import { DEFAULT_BPM, PULSES_PER_QUARTER } from '../../midi/midiClock';
+
+// Beats shown by the position indicator
+const BEATS_PER_BAR = 4;
+
+interface MidiTransportProps {
+  control: ControlItem;
+  onChange: (value: number) => void;
+  onSelect?: () => void;
+  isEditMode?: boolean;
+  isSelected?: boolean;
+  selectedMidiOutput?: string | null;
+}
+
+export default function MidiTransport({
+  control,
+  onChange,
+  onSelect,
+  isEditMode = false,
+}: MidiTransportProps) {
+  const { config } = control;
+  const { clockState, start, stop, continueClock, tapTempo, setBPM, setSource, subscribeToTick } = useMIDIClock();
+  const theme = useTheme();
+  const [beat, setBeat] = useState(0);
+
+  const color = config.color || theme.palette.primary.main;
+  const source = config.clock?.source ?? 'internal';
+  const isExternal = clockState.source === 'external';
+
+  // Apply this control's clock source
+  useEffect(() => {
+    setSource(source);
+  }, [source, setSource]);
+
+  // Restore the last tempo, falling back to the configured one
+  useEffect(() => {
+    if (source !== 'internal') return;
+    setBPM(loadControlValue(control.id) ?? config.clock?.bpm ?? DEFAULT_BPM);
+  }, [control.id, source]);
+
+  // The control value is the tempo, so it is saved with the preset values
+  useEffect(() => {
+    if (clockState.source !== 'internal') return;
+    saveControlValue(control.id, clockState.bpm);
+    onChange(clockState.bpm);
+  }, [clockState.bpm, clockState.source, control.id]);
+
+  // Only re-render on beat changes, not on every pulse
+  useEffect(() => {
+    if (!clockState.running) {
+      setBeat(0);
+      return;
+    }
+
+    return subscribeToTick((tick) => {
+      setBeat(Math.floor(tick / PULSES_PER_QUARTER) % BEATS_PER_BAR);
+    });
+  }, [clockState.running, subscribeToTick]);
+
+  // Buttons stay inert in edit mode so the control can be selected and moved
+  const guard = (action: () => void) => (e: React.MouseEvent) => {
+    e.stopPropagation();
+    if (isEditMode) {
+      onSelect?.();
+      return;
+    }
+    action();
+  };
+
+  return (
+    <Box
+      onClick={() => isEditMode && onSelect?.()}
+      sx={{
+        width: '100%',
+        height: '100%',
+        borderRadius: 1,
+        border: `2px solid ${color}`,
+        boxShadow: theme.shadows[4],
+        display: 'flex',
+        alignItems: 'center',
+        gap: 1,
+        px: 1,
+        position: 'relative',
+        overflow: 'hidden',
+      }}
+    >
+      <IconButton
+        size="small"
+        onClick={guard(clockState.running ? stop : start)}
+        disabled={isExternal}
+        sx={{ color }}
+        title={clockState.running ? 'Stop' : 'Start'}
+      >
+        {clockState.running ? <Stop /> : <PlayArrow />}
+      </IconButton>
+
+      <IconButton
+        size="small"
+        onClick={guard(continueClock)}
+        disabled={isExternal || clockState.running || clockState.tick === 0}
+        sx={{ color }}
+        title="Continue"
+      >
+        <SkipNext />
+      </IconButton>
+
+      <Box sx={{ flexGrow: 1, minWidth: 0, display: 'flex', flexDirection: 'column', alignItems: 'center' }}>
+        <Box sx={{ display: 'flex', alignItems: 'center' }}>
+          {!isExternal && (
+            <IconButton size="small" onClick={guard(() => setBPM(clockState.bpm - 1))} sx={{ p: 0.25 }}>
+              <Remove fontSize="small" />
+            </IconButton>
+          )}
+          <Typography variant="h6" sx={{ fontWeight: 'bold', color, mx: 0.5, fontVariantNumeric: 'tabular-nums' }}>
+            {clockState.bpm.toFixed(1)}
+          </Typography>
+          {!isExternal && (
+            <IconButton size="small" onClick={guard(() => setBPM(clockState.bpm + 1))} sx={{ p: 0.25 }}>
+              <Add fontSize="small" />
+            </IconButton>
+          )}
+        </Box>
+
+        <Box sx={{ display: 'flex', alignItems: 'center', gap: 0.5 }}>
+          {Array.from({ length: BEATS_PER_BAR }, (_, i) => (
+            <Box
+              key={i}
+              sx={{
+                width: 6,
+                height: 6,
+                borderRadius: '50%',
+                backgroundColor: clockState.running && beat === i ? color : 'action.disabled',
+              }}
+            />
+          ))}
+          <Typography variant="caption" sx={{ fontSize: '0.6rem', color: 'text.secondary', ml: 0.5 }}>
+            {isExternal ? 'EXT' : 'INT'} BPM
+          </Typography>
+        </Box>
+      </Box>
+
+      <Button
+        size="small"
+        variant="outlined"
+        onClick={guard(tapTempo)}
+        disabled={isExternal}
+        sx={{ minWidth: 0, color, borderColor: color }}
+      >
+        Tap
+      </Button>
+
+      {isEditMode && (
+        <Typography
+          variant="caption"
+          sx={{
+            position: 'absolute',
+            bottom: '2px',
+            left: '5px',
+            fontSize: '0.6rem',
+            backgroundColor: 'rgba(0,0,0,0.6)',
+            color: 'white',
+            padding: '2px 4px',
+            borderRadius: 1,
+            zIndex: 2,
+          }}
+        >
+          Clock | {source === 'internal' ? 'Internal' : 'External'}
+        </Typography>
+      )}
+    </Box>
+  );
+}
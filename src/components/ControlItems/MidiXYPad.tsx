@@ -0,0 +1,362 @@
+import { useState, useEffect, useRef } from 'react';
+import { Box, Typography, useTheme } from '@mui/material';
+import { ControlItem, XYAxisConfig, XYPadConfig } from '../../types/index';
+import useMIDI from '../../hooks/useMIDI';
+import { saveControlValue, loadControlValue } from '../../utils/controlValueStorage';
+import { midiSync } from '../../utils/midiSync';
+import { DEFAULT_XY_PAD, getAxisPosition, getAxisValue } from '../../utils/xyPadHelpers';
+
+// How long a spring-loaded axis takes to glide back to the centre
+const SPRING_RETURN_MS = 150;
+const PUCK_SIZE = 20;
+
+type Axis = 'x' | 'y';
+
+interface PadPosition {
+  x: number;  // 0 (left) to 1 (right)
+  y: number;  // 0 (bottom) to 1 (top)
+}
+
+// No onChange: the pad has two values, which are saved per axis instead of
+// reported as the control's single value
+interface MidiXYPadProps {
+  control: ControlItem;
+  isEditMode?: boolean;
+  selectedMidiOutput?: string | null;
+}
+
+export default function MidiXYPad({
+  control,
+  isEditMode = false,
+  selectedMidiOutput
+}: MidiXYPadProps) {
+  const { config } = control;
+  const { sendCC, subscribeToCC } = useMIDI();
+  const theme = useTheme();
+  const padRef = useRef<HTMLDivElement>(null);
+
+  const xyPad: XYPadConfig = config.xyPad ?? DEFAULT_XY_PAD;
+  const color = config.color || theme.palette.primary.main;
+
+  const [position, setPosition] = useState<PadPosition>({ x: 0.5, y: 0.5 });
+  const [isTouching, setIsTouching] = useState(false);
+  const positionRef = useRef(position);
+  const lastSentRef = useRef<Partial<Record<Axis, number>>>({});
+  const springFrameRef = useRef<number | null>(null);
+
+  const lastUserInteractionRef = useRef<number>(0);
+  const MIDI_DEBOUNCE_MS = 2000; // Ignore MIDI input for a moment after user interaction
+
+  // Each axis is saved separately, the control only has one value slot
+  useEffect(() => {
+    const savedX = loadControlValue(`${control.id}-x`);
+    const savedY = loadControlValue(`${control.id}-y`);
+    if (savedX !== null || savedY !== null) {
+      const saved = { x: savedX ?? 0.5, y: savedY ?? 0.5 };
+      positionRef.current = saved;
+      setPosition(saved);
+    }
+  }, [control.id]);
+
+  // Forget what was sent when the mapping changes so the new CCs get a value
+  useEffect(() => {
+    lastSentRef.current = {};
+  }, [config.xyPad]);
+
+  // Positions are saved on release rather than every move
+  const savePosition = () => {
+    saveControlValue(`${control.id}-x`, positionRef.current.x);
+    saveControlValue(`${control.id}-y`, positionRef.current.y);
+  };
+
+  useEffect(() => {
+    return () => {
+      // Keep where an unfinished spring-back had got to
+      if (springFrameRef.current !== null) {
+        cancelAnimationFrame(springFrameRef.current);
+        savePosition();
+      }
+    };
+  }, []);
+
+  // Send each axis whose CC value changed and let controls on the same CC follow
+  const sendAxes = (next: PadPosition) => {
+    if (!selectedMidiOutput) return;
+
+    (['x', 'y'] as Axis[]).forEach(axis => {
+      const { channel, cc } = xyPad[axis];
+      const value = getAxisValue(xyPad[axis], next[axis]);
+      if (lastSentRef.current[axis] === value) return;
+
+      if (sendCC(channel, cc, value)) {
+        lastSentRef.current[axis] = value;
+        midiSync.notify(channel, cc, value);
+      }
+    });
+  };
+
+  const sendTouch = (isOn: boolean) => {
+    if (!xyPad.touch || !selectedMidiOutput) return;
+
+    const { channel, cc, onValue, offValue } = xyPad.touch;
+    sendCC(channel, cc, isOn ? onValue : offValue);
+  };
+
+  const moveTo = (next: PadPosition) => {
+    positionRef.current = next;
+    setPosition(next);
+    sendAxes(next);
+  };
+
+  const cancelSpring = () => {
+    if (springFrameRef.current !== null) {
+      cancelAnimationFrame(springFrameRef.current);
+      springFrameRef.current = null;
+    }
+  };
+
+  // Glide spring-loaded axes back to the centre, sending values on the way
+  // and saving where it settles
+  const springBack = () => {
+    const springX = !!xyPad.x.springReturn;
+    const springY = !!xyPad.y.springReturn;
+    if (!springX && !springY) return;
+
+    const from = positionRef.current;
+    const startTime = performance.now();
+
+    const step = (now: number) => {
+      const progress = Math.min(1, (now - startTime) / SPRING_RETURN_MS);
+      const current = positionRef.current;
+      moveTo({
+        x: springX ? from.x + (0.5 - from.x) * progress : current.x,
+        y: springY ? from.y + (0.5 - from.y) * progress : current.y,
+      });
+      if (progress < 1) {
+        springFrameRef.current = requestAnimationFrame(step);
+      } else {
+        springFrameRef.current = null;
+        savePosition();
+      }
+    };
+
+    springFrameRef.current = requestAnimationFrame(step);
+  };
+
+  const handleInteraction = (clientX: number, clientY: number) => {
+    if (!padRef.current || isEditMode) return;
+
+    const rect = padRef.current.getBoundingClientRect();
+    moveTo({
+      x: Math.max(0, Math.min(1, (clientX - rect.left) / rect.width)),
+      y: Math.max(0, Math.min(1, 1 - (clientY - rect.top) / rect.height)),
+    });
+    lastUserInteractionRef.current = Date.now();
+  };
+
+  const beginTouch = () => {
+    cancelSpring();
+    setIsTouching(true);
+    sendTouch(true);
+  };
+
+  const endTouch = () => {
+    setIsTouching(false);
+    sendTouch(false);
+    savePosition();
+    springBack();
+  };
+
+  const handleMouseDown = (e: React.MouseEvent) => {
+    if (isEditMode) return;
+
+    beginTouch();
+    handleInteraction(e.clientX, e.clientY);
+
+    const handleMouseMove = (moveEvent: MouseEvent) => {
+      handleInteraction(moveEvent.clientX, moveEvent.clientY);
+    };
+
+    const handleMouseUp = () => {
+      document.removeEventListener('mousemove', handleMouseMove);
+      document.removeEventListener('mouseup', handleMouseUp);
+      endTouch();
+    };
+
+    document.addEventListener('mousemove', handleMouseMove);
+    document.addEventListener('mouseup', handleMouseUp);
+  };
+
+  const handleTouchStart = (e: React.TouchEvent) => {
+    if (isEditMode) return;
+    e.preventDefault(); // Prevent scrolling
+
+    beginTouch();
+    const touch = e.touches[0];
+    handleInteraction(touch.clientX, touch.clientY);
+
+    const handleTouchMove = (moveEvent: TouchEvent) => {
+      moveEvent.preventDefault();
+      const moveTouch = moveEvent.touches[0];
+      handleInteraction(moveTouch.clientX, moveTouch.clientY);
+    };
+
+    const handleTouchEnd = () => {
+      document.removeEventListener('touchmove', handleTouchMove);
+      document.removeEventListener('touchend', handleTouchEnd);
+      document.removeEventListener('touchcancel', handleTouchEnd);
+      endTouch();
+    };
+
+    document.addEventListener('touchmove', handleTouchMove, { passive: false });
+    document.addEventListener('touchend', handleTouchEnd);
+    document.addEventListener('touchcancel', handleTouchEnd);
+  };
+
+  // Incoming CC on either axis moves the puck
+  useEffect(() => {
+    if (isEditMode) return;
+
+    const follow = (axis: Axis, axisConfig: XYAxisConfig) => (value: number) => {
+      const timeSinceLastInteraction = Date.now() - lastUserInteractionRef.current;
+      if (timeSinceLastInteraction < MIDI_DEBOUNCE_MS) return;
+
+      const axisPosition = getAxisPosition(axisConfig, value);
+      if (axisPosition === null) return;
+
+      lastSentRef.current[axis] = value;
+      const next = { ...positionRef.current, [axis]: axisPosition };
+      positionRef.current = next;
+      setPosition(next);
+    };
+
+    const unsubscribers = (['x', 'y'] as Axis[]).flatMap(axis => {
+      const axisConfig = xyPad[axis];
+      const callback = follow(axis, axisConfig);
+      return [
+        midiSync.subscribe(axisConfig.channel, axisConfig.cc, callback),
+        ...(selectedMidiOutput ? [subscribeToCC(axisConfig.channel, axisConfig.cc, callback)] : []),
+      ];
+    });
+
+    return () => unsubscribers.forEach(unsubscribe => unsubscribe());
+  }, [config.xyPad, isEditMode, selectedMidiOutput, subscribeToCC]);
+
+  return (
+    <Box sx={{
+      width: '100%',
+      height: '100%',
+      padding: 1,
+      userSelect: 'none',
+    }}>
+      <Box
+        ref={padRef}
+        sx={{
+          position: 'relative',
+          width: '100%',
+          height: '100%',
+          border: `2px solid ${color}`,
+          borderRadius: 1,
+          overflow: 'hidden',
+          cursor: isEditMode ? 'default' : 'crosshair',
+          boxShadow: theme.shadows[1],
+          touchAction: 'none',
+        }}
+        onMouseDown={handleMouseDown}
+        onTouchStart={handleTouchStart}
+      >
+        {/* Crosshair */}
+        <Box
+          sx={{
+            position: 'absolute',
+            top: 0,
+            bottom: 0,
+            left: `${position.x * 100}%`,
+            width: '1px',
+            backgroundColor: color,
+            opacity: 0.5,
+          }}
+        />
+        <Box
+          sx={{
+            position: 'absolute',
+            left: 0,
+            right: 0,
+            bottom: `${position.y * 100}%`,
+            height: '1px',
+            backgroundColor: color,
+            opacity: 0.5,
+          }}
+        />
+
+        {/* Puck */}
+        <Box
+          sx={{
+            position: 'absolute',
+            left: `${position.x * 100}%`,
+            bottom: `${position.y * 100}%`,
+            width: PUCK_SIZE,
+            height: PUCK_SIZE,
+            transform: 'translate(-50%, 50%)',
+            borderRadius: '50%',
+            backgroundColor: color,
+            boxShadow: isTouching ? `0 0 8px 2px ${color}` : theme.shadows[2],
+          }}
+        />
+
+        <Typography
+          variant="body2"
+          sx={{
+            position: 'absolute',
+            top: '5px',
+            left: '5px',
+            fontWeight: 'bold',
+            maxWidth: '50%',
+            overflow: 'hidden',
+            whiteSpace: 'nowrap',
+            textOverflow: 'ellipsis',
+          }}
+        >
+          {config.label || 'XY Pad'}
+        </Typography>
+
+        {/* Value readouts */}
+        <Box
+          sx={{
+            position: 'absolute',
+            top: '5px',
+            right: '5px',
+            backgroundColor: 'rgba(0,0,0,0.6)',
+            padding: '2px 4px',
+            borderRadius: 1,
+            zIndex: 1,
+          }}
+        >
+          <Typography variant="caption" sx={{ color: 'text.primary', fontWeight: 'medium', fontVariantNumeric: 'tabular-nums' }}>
+            X {getAxisValue(xyPad.x, position.x)} Y {getAxisValue(xyPad.y, position.y)}
+          </Typography>
+        </Box>
+
+        {/* MIDI info in edit mode */}
+        {isEditMode && (
+          <Typography
+            variant="caption"
+            sx={{
+              position: 'absolute',
+              bottom: '5px',
+              left: '5px',
+              fontSize: '0.6rem',
+              backgroundColor: 'rgba(0,0,0,0.6)',
+              color: 'white',
+              padding: '2px 4px',
+              borderRadius: 1,
+              zIndex: 2,
+            }}
+          >
+            X: CC {xyPad.x.cc} | {xyPad.x.channel} Y: CC {xyPad.y.cc} | {xyPad.y.channel}
+          </Typography>
+        )}
+      </Box>
+    </Box>
+  );
+}
@@ -2,6 +2,7 @@ import { useState, useEffect } from 'react';
 import { Box, Typography, useTheme, TextField } from '@mui/material';
 import { ControlItem } from '../../types/index';
 import useMIDI from '../../hooks/useMIDI';
+import { CC14_MAX } from '../../midi/midiHandler';
 import { saveControlValue, loadControlValue } from '../../utils/controlValueStorage';
 
 interface TextBoxControlProps {
@@ -22,19 +23,16 @@ export default function TextBoxControl({
   selectedMidiOutput
 }: TextBoxControlProps) {
   const { config } = control;
-  const { sendCC } = useMIDI();
+  const { sendControlValue } = useMIDI();
   const theme = useTheme();
   const [value, setValue] = useState(config.value || 0);
   const [textValue, setTextValue] = useState('');
   
+  const isHighResolution = !!config.midi?.highResolution;
   const minVal = config.midi?.min !== undefined ? config.midi.min : 0;
-  const maxVal = config.midi?.max !== undefined ? config.midi.max : 127;
+  const maxVal = config.midi?.max !== undefined ? config.midi.max : (isHighResolution ? CC14_MAX : 127);
   const showLabel = config.showLabel !== false;
   const color = config.color || theme.palette.primary.main;
-
-  // Add defaults for MIDI channel and CC
-  const channel = config.midi?.channel ?? 1;  // Default to channel 1
-  const cc = config.midi?.cc ?? 0;  // Default to CC 0
   
   // Load saved value on mount
   useEffect(() => {
@@ -75,7 +73,7 @@ export default function TextBoxControl({
     
     // Send MIDI if applicable
     if (config.midi && selectedMidiOutput) {
-      sendCC(channel, cc, newValue);
+      sendControlValue(config.midi, newValue);
     }
     
     onChange?.(newValue);
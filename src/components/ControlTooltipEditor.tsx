@@ -16,11 +16,19 @@ import {
   Delete as DeleteIcon,
   Close as CloseIcon,
 } from '@mui/icons-material';
-import { ControlItem } from '../types/index';
+import { ControlItem, ControlType } from '../types/index';
+import { OutputStatus } from './TopBar';
+
+// Controls whose values aren't a plain min/max range, or that set their own
+const NO_MIDI_RANGE_TYPES: ControlType[] = [
+  'program', 'sysex', 'transport', 'macro', 'xypad', 'padgrid', 'keyboard', 'sequencer', 'selector', 'list', 'meter', 'history'
+];
 
 export interface ControlTooltipEditorProps {
   anchorEl: HTMLElement | null;
   control: ControlItem;
+  controls?: ControlItem[];  // All controls in the preset, for linking controls together
+  outputDevices?: OutputStatus[];  // Outputs the preset has open, for per-control routing
   onClose: () => void;
   updateControl: (control: ControlItem) => void;
   onDeleteControl: (id: string) => void;
@@ -61,6 +69,14 @@ const ExtraTabContent = lazy(() =>
   })
 );
 
+const OscTabContent = lazy(() => 
+  new Promise<{ default: React.ComponentType<any> }>(resolve => {
+    setTimeout(() => 
+      import('./ControlTooltipTabs/OscTabContent').then(module => resolve({ default: module.default }))
+    , 100);
+  })
+);
+
 // Loading placeholder for lazy-loaded content
 const TabContentLoader = () => (
   <Box sx={{ display: 'flex', justifyContent: 'center', py: 4 }}>
@@ -83,7 +99,7 @@ const TabPanel = memo(({ children, value, index }: {
 });
 
 // Main tooltip editor component
-const ControlTooltipEditor = memo(({ anchorEl, onClose, open, control, updateControl, onDeleteControl }: ControlTooltipEditorProps) => {
+const ControlTooltipEditor = memo(({ anchorEl, onClose, open, control, controls, outputDevices, updateControl, onDeleteControl }: ControlTooltipEditorProps) => {
   const [activeTab, setActiveTab] = useState(0);
 
   const sharedTabProps: SharedTabProps = {
@@ -127,6 +143,11 @@ const ControlTooltipEditor = memo(({ anchorEl, onClose, open, control, updateCon
     }
   };
 
+  // Pitch bend, notes and program changes have fixed ranges
+  const showMidiRange = !NO_MIDI_RANGE_TYPES.includes(control.type) &&
+    control.config.midi?.messageType !== 'pitchbend' &&
+    control.config.midi?.messageType !== 'note';
+
   const handleMidiValueChange = (key: 'min' | 'max', value: string) => {
     // Allow empty string or just a minus sign
     if (value === '' || value === '-') {
@@ -224,7 +245,8 @@ const ControlTooltipEditor = memo(({ anchorEl, onClose, open, control, updateCon
         >
           <Tab label="Basic" />
           <Tab label="MIDI" />
-          <Tab label={control.type === 'slider' ? 'Slider' : 'Extra'} />
+          <Tab label={control.type === 'slider' ? 'Slider' : control.type === 'knob' ? 'Knob' : 'Extra'} />
+          <Tab label="OSC" />
         </Tabs>
 
         {/* Scrollable content area with fixed height */}
@@ -241,55 +263,63 @@ const ControlTooltipEditor = memo(({ anchorEl, onClose, open, control, updateCon
             </TabPanel>
 
             <TabPanel value={activeTab} index={1}>
-              <MidiTabContent {...sharedTabProps} />
-              <TextField
-                label="Min Value"
-                type="number"
-                value={control.config.midi?.min ?? ''}
-                onChange={(e) => {
-                  const value = e.target.value;
-                  // Allow empty string
-                  if (value === '') {
-                    handleMidiValueChange('min', value);
-                    return;
-                  }
-                  // Parse as float to allow decimals
-                  const numValue = parseInt(value);
-                  if (!isNaN(numValue)) {
-                    handleMidiValueChange('min', value);
-                  }
-                }}
-                size="small"
-                fullWidth
-                sx={{ mb: 2 }}
-              />
+              <MidiTabContent {...sharedTabProps} controls={controls} outputDevices={outputDevices} />
+              {showMidiRange && (
+                <>
+                  <TextField
+                    label="Min Value"
+                    type="number"
+                    value={control.config.midi?.min ?? ''}
+                    onChange={(e) => {
+                      const value = e.target.value;
+                      // Allow empty string
+                      if (value === '') {
+                        handleMidiValueChange('min', value);
+                        return;
+                      }
+                      // Parse as float to allow decimals
+                      const numValue = parseInt(value);
+                      if (!isNaN(numValue)) {
+                        handleMidiValueChange('min', value);
+                      }
+                    }}
+                    size="small"
+                    fullWidth
+                    sx={{ mb: 2 }}
+                  />
 
-              <TextField
-                label="Max Value"
-                type="number"
-                value={control.config.midi?.max ?? ''}
-                onChange={(e) => {
-                  const value = e.target.value;
-                  // Allow empty string
-                  if (value === '') {
-                    handleMidiValueChange('max', value);
-                    return;
-                  }
-                  // Parse as float to allow decimals
-                  const numValue = parseInt(value);
-                  if (!isNaN(numValue)) {
-                    handleMidiValueChange('max', value);
-                  }
-                }}
-                size="small"
-                fullWidth
-                sx={{ mb: 2 }}
-              />
+                  <TextField
+                    label="Max Value"
+                    type="number"
+                    value={control.config.midi?.max ?? ''}
+                    onChange={(e) => {
+                      const value = e.target.value;
+                      // Allow empty string
+                      if (value === '') {
+                        handleMidiValueChange('max', value);
+                        return;
+                      }
+                      // Parse as float to allow decimals
+                      const numValue = parseInt(value);
+                      if (!isNaN(numValue)) {
+                        handleMidiValueChange('max', value);
+                      }
+                    }}
+                    size="small"
+                    fullWidth
+                    sx={{ mb: 2 }}
+                  />
+                </>
+              )}
             </TabPanel>
 
             <TabPanel value={activeTab} index={2}>
               <ExtraTabContent {...sharedTabProps} />
             </TabPanel>
+
+            <TabPanel value={activeTab} index={3}>
+              <OscTabContent {...sharedTabProps} />
+            </TabPanel>
           </Suspense>
         </Box>
 
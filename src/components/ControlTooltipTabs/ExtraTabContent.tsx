@@ -1,7 +1,25 @@
-import { memo } from 'react';
-import { Box, FormControl, Select, MenuItem, Switch, FormControlLabel, Typography, InputLabel, TextField } from '@mui/material';
-import { ControlItem } from '../../types/index';
+import { memo, useState } from 'react';
+import { Box, FormControl, Select, MenuItem, Switch, FormControlLabel, Typography, InputLabel, TextField, Button, IconButton } from '@mui/material';
+import { Add as AddIcon, Delete as DeleteIcon } from '@mui/icons-material';
+import { ControlItem, HistoryConfig, HistorySource, KeyboardConfig, KnobConfig, KnobDragMode, LFOConfig, MacroTarget, MeterConfig, MeterDisplay, PadGridConfig, ProgramEntry, SelectorOption, SequencerConfig, SequencerStep, XYPadConfig } from '../../types/index';
 import { TextField2, ColorField } from './CommonComponents';
+import { DEFAULT_LFO } from '../../midi/lfoEngine';
+import { CLOCK_DIVISIONS, ClockDivision } from '../../midi/midiClock';
+import { DEFAULT_XY_PAD } from '../../utils/xyPadHelpers';
+import { DEFAULT_PAD_GRID, MAX_PAD_GRID_SIZE } from '../../utils/padGridHelpers';
+import { getNoteName } from '../../utils/midiHelpers';
+import { DEFAULT_KEYBOARD, MAX_KEYBOARD_OCTAVES, MAX_OCTAVE, MIN_OCTAVE } from '../../utils/keyboardHelpers';
+import { spreadOptionValues } from '../../utils/selectorHelpers';
+import { DEFAULT_METER, MAX_DECAY, MAX_PEAK_HOLD } from '../../utils/meterHelpers';
+import { DEFAULT_HISTORY, MAX_HISTORY_WINDOW, MIN_HISTORY_WINDOW } from '../../utils/historyHelpers';
+import {
+  DEFAULT_SEQUENCER,
+  MAX_SWING,
+  MIN_GATE,
+  MIN_SWING,
+  SEQUENCER_LENGTHS,
+  resizeSequencerSteps
+} from '../../utils/sequencerHelpers';
 
 interface ExtraTabContentProps {
   selectedControl: ControlItem;
@@ -35,29 +53,236 @@ const ExtraTabContent = memo(({
     }
   };
 
+  const knobConfig: KnobConfig = selectedControl.config.knobConfig ?? {};
+
+  const updateKnobConfig = (changes: Partial<KnobConfig>) => {
+    updateControlConfig('knobConfig', { ...knobConfig, ...changes });
+  };
+
+  const lfo: LFOConfig = selectedControl.config.sliderConfig?.lfo ?? DEFAULT_LFO;
+
+  const updateLFO = (changes: Partial<LFOConfig>) => {
+    updateControlConfig('sliderConfig', {
+      ...selectedControl.config.sliderConfig,
+      lfo: { ...lfo, ...changes }
+    });
+  };
+
+  // Depth and offset are edited as percentages of the slider range
+  const handlePercentChange = (key: 'depth' | 'offset', value: string) => {
+    const numValue = parseFloat(value);
+    if (!isNaN(numValue)) {
+      updateLFO({ [key]: Math.max(0, Math.min(100, numValue)) / 100 });
+    }
+  };
+
+  const programs: ProgramEntry[] = selectedControl.config.programs ?? [];
+
+  const updateProgram = (index: number, changes: Partial<ProgramEntry>) => {
+    updateControlConfig('programs', programs.map((entry, i) =>
+      i === index ? { ...entry, ...changes } : entry
+    ));
+  };
+
+  // Parse a 0-127 MIDI byte, treating an empty field as "not sent"
+  const parseOptionalByte = (value: string) => {
+    if (value === '') return undefined;
+    const numValue = parseInt(value, 10);
+    return isNaN(numValue) ? undefined : Math.max(0, Math.min(127, numValue));
+  };
+
+  const addProgram = () => {
+    const nextProgram = programs.length > 0
+      ? Math.min(127, programs[programs.length - 1].program + 1)
+      : 0;
+    updateControlConfig('programs', [
+      ...programs,
+      { name: `Program ${programs.length + 1}`, program: nextProgram }
+    ]);
+  };
+
+  const removeProgram = (index: number) => {
+    updateControlConfig('programs', programs.filter((_, i) => i !== index));
+  };
+
+  const options: SelectorOption[] = selectedControl.config.options ?? [];
+
+  const updateOption = (index: number, changes: Partial<SelectorOption>) => {
+    updateControlConfig('options', options.map((option, i) =>
+      i === index ? { ...option, ...changes } : option
+    ));
+  };
+
+  const addOption = () => {
+    const last = options[options.length - 1];
+    updateControlConfig('options', [
+      ...options,
+      { label: `Option ${options.length + 1}`, value: last ? Math.min(127, last.value + 1) : 0 }
+    ]);
+  };
+
+  const removeOption = (index: number) => {
+    updateControlConfig('options', options.filter((_, i) => i !== index));
+  };
+
+  const macroTargets: MacroTarget[] = selectedControl.config.macroTargets ?? [];
+
+  const updateMacroTarget = (index: number, changes: Partial<MacroTarget>) => {
+    updateControlConfig('macroTargets', macroTargets.map((target, i) =>
+      i === index ? { ...target, ...changes } : target
+    ));
+  };
+
+  const addMacroTarget = () => {
+    const last = macroTargets[macroTargets.length - 1];
+    updateControlConfig('macroTargets', [
+      ...macroTargets,
+      { channel: last?.channel ?? 1, cc: Math.min(127, (last?.cc ?? 0) + 1), min: 0, max: 127, curve: 'linear' }
+    ]);
+  };
+
+  const removeMacroTarget = (index: number) => {
+    updateControlConfig('macroTargets', macroTargets.filter((_, i) => i !== index));
+  };
+
+  const xyPad: XYPadConfig = selectedControl.config.xyPad ?? DEFAULT_XY_PAD;
+
+  const updateSpringReturn = (axis: 'x' | 'y', springReturn: boolean) => {
+    updateControlConfig('xyPad', { ...xyPad, [axis]: { ...xyPad[axis], springReturn } });
+  };
+
+  const padGrid: PadGridConfig = selectedControl.config.padGrid ?? DEFAULT_PAD_GRID;
+
+  const updatePadGrid = (changes: Partial<PadGridConfig>) => {
+    updateControlConfig('padGrid', { ...padGrid, ...changes });
+  };
+
+  const handlePadGridNumber = (key: 'rows' | 'columns' | 'baseNote' | 'velocity', value: string) => {
+    const numValue = parseInt(value, 10);
+    if (isNaN(numValue)) return;
+
+    const [min, max] = key === 'rows' || key === 'columns'
+      ? [1, MAX_PAD_GRID_SIZE]
+      : [key === 'velocity' ? 1 : 0, 127];
+    updatePadGrid({ [key]: Math.max(min, Math.min(max, numValue)) });
+  };
+
+  const keyboard: KeyboardConfig = selectedControl.config.keyboard ?? DEFAULT_KEYBOARD;
+
+  const updateKeyboard = (changes: Partial<KeyboardConfig>) => {
+    const next = { ...keyboard, ...changes };
+    // Keep the top C within MIDI range
+    next.startOctave = Math.min(next.startOctave, MAX_OCTAVE - next.octaves);
+    updateControlConfig('keyboard', next);
+  };
+
+  const sequencer: SequencerConfig = selectedControl.config.sequencer ?? DEFAULT_SEQUENCER;
+  const [selectedStep, setSelectedStep] = useState(0);
+  const step: SequencerStep | undefined = sequencer.steps[Math.min(selectedStep, sequencer.steps.length - 1)];
+
+  const updateSequencer = (changes: Partial<SequencerConfig>) => {
+    updateControlConfig('sequencer', { ...sequencer, ...changes });
+  };
+
+  const updateStep = (changes: Partial<SequencerStep>) => {
+    const index = Math.min(selectedStep, sequencer.steps.length - 1);
+    updateSequencer({
+      steps: sequencer.steps.map((entry, i) => i === index ? { ...entry, ...changes } : entry)
+    });
+  };
+
+  const handleStepNumber = (key: 'note' | 'velocity', value: string) => {
+    const numValue = parseInt(value, 10);
+    if (!isNaN(numValue)) {
+      updateStep({ [key]: Math.max(key === 'velocity' ? 1 : 0, Math.min(127, numValue)) });
+    }
+  };
+
+  const meter: MeterConfig = selectedControl.config.meter ?? DEFAULT_METER;
+
+  const handleMeterNumber = (key: 'peakHold' | 'decay', value: string) => {
+    const numValue = parseInt(value, 10);
+    if (!isNaN(numValue)) {
+      const max = key === 'peakHold' ? MAX_PEAK_HOLD : MAX_DECAY;
+      updateControlConfig('meter', { ...meter, [key]: Math.max(0, Math.min(max, numValue)) });
+    }
+  };
+
+  const history: HistoryConfig = selectedControl.config.history ?? DEFAULT_HISTORY;
+
+  const handleHistoryNumber = (key: 'window' | 'min' | 'max', value: string) => {
+    const numValue = parseInt(value, 10);
+    if (isNaN(numValue)) return;
+
+    const clamped = key === 'window'
+      ? Math.max(MIN_HISTORY_WINDOW, Math.min(MAX_HISTORY_WINDOW, numValue))
+      : Math.max(0, Math.min(127, numValue));
+    updateControlConfig('history', { ...history, [key]: clamped });
+  };
+
   return (
     <Box sx={{ pt: 1 }}>
-      {selectedControl.type === 'slider' && (
+      {selectedControl.type === 'knob' && (
         <>
           <Box sx={{ display: 'flex', alignItems: 'center', mb: 1 }}>
             <FormControl fullWidth size="small">
-              <InputLabel id="orientation-select-label">Orientation</InputLabel>
+              <InputLabel id="knob-drag-select-label">Drag Mode</InputLabel>
               <Select
-                labelId="orientation-select-label"
-                label="Orientation"
-                value={selectedControl.config.orientation || 'vertical'}
-                onChange={(e) => updateControlConfig('orientation', e.target.value)}
+                labelId="knob-drag-select-label"
+                label="Drag Mode"
+                value={knobConfig.dragMode ?? 'vertical'}
+                onChange={(e) => updateKnobConfig({ dragMode: e.target.value as KnobDragMode })}
                 sx={{ height: 32 }}
                 MenuProps={{
                   sx: { zIndex: 9999 }
                 }}
               >
-                <MenuItem value="vertical">Vertical</MenuItem>
-                <MenuItem value="horizontal">Horizontal</MenuItem>
+                <MenuItem value="vertical">Vertical Drag</MenuItem>
+                <MenuItem value="rotary">Rotary Drag</MenuItem>
               </Select>
             </FormControl>
           </Box>
 
+          <FormControlLabel
+            control={
+              <Switch
+                checked={!!knobConfig.bipolar}
+                onChange={(e) => updateKnobConfig({ bipolar: e.target.checked })}
+                size="small"
+              />
+            }
+            label="Bipolar (from centre)"
+          />
+
+          <Typography variant="caption" color="text.secondary" component="div" sx={{ mb: 2 }}>
+            Hold Shift or use two fingers for fine adjustment
+          </Typography>
+        </>
+      )}
+
+      {(selectedControl.type === 'slider' || selectedControl.type === 'knob') && (
+        <>
+          {selectedControl.type === 'slider' && (
+            <Box sx={{ display: 'flex', alignItems: 'center', mb: 1 }}>
+              <FormControl fullWidth size="small">
+                <InputLabel id="orientation-select-label">Orientation</InputLabel>
+                <Select
+                  labelId="orientation-select-label"
+                  label="Orientation"
+                  value={selectedControl.config.orientation || 'vertical'}
+                  onChange={(e) => updateControlConfig('orientation', e.target.value)}
+                  sx={{ height: 32 }}
+                  MenuProps={{
+                    sx: { zIndex: 9999 }
+                  }}
+                >
+                  <MenuItem value="vertical">Vertical</MenuItem>
+                  <MenuItem value="horizontal">Horizontal</MenuItem>
+                </Select>
+              </FormControl>
+            </Box>
+          )}
+
           <TextField
             label="Steps"
             type="text"
@@ -146,6 +371,145 @@ const ExtraTabContent = memo(({
             fullWidth
             sx={{ mb: 2 }}
           />
+
+          {selectedControl.type === 'slider' && selectedControl.config.midi?.messageType === 'pitchbend' && (
+            <>
+              <Box sx={{ mt: 2, mb: 1 }}>
+                <Typography variant="caption" fontWeight="bold">Pitch Bend Settings</Typography>
+              </Box>
+
+              <FormControlLabel
+                control={
+                  <Switch
+                    checked={!!selectedControl.config.sliderConfig?.centerDetent}
+                    onChange={(e) => updateControlConfig('sliderConfig', {
+                      ...selectedControl.config.sliderConfig,
+                      centerDetent: e.target.checked
+                    })}
+                    size="small"
+                  />
+                }
+                label="Centre Detent"
+              />
+
+              <FormControlLabel
+                control={
+                  <Switch
+                    checked={!!selectedControl.config.sliderConfig?.springBack}
+                    onChange={(e) => updateControlConfig('sliderConfig', {
+                      ...selectedControl.config.sliderConfig,
+                      springBack: e.target.checked
+                    })}
+                    size="small"
+                  />
+                }
+                label="Spring Back to Centre"
+              />
+            </>
+          )}
+
+          {selectedControl.type === 'slider' && (
+            <>
+              <Box sx={{ mt: 2, mb: 1 }}>
+                <Typography variant="caption" fontWeight="bold">LFO</Typography>
+              </Box>
+
+              <FormControlLabel
+                control={
+                  <Switch
+                    checked={lfo.enabled}
+                    onChange={(e) => updateLFO({ enabled: e.target.checked })}
+                    size="small"
+                  />
+                }
+                label="Modulate with LFO"
+              />
+
+              {lfo.enabled && (
+                <>
+                  <Box sx={{ display: 'flex', gap: 1, mt: 1, mb: 2 }}>
+                    <FormControl fullWidth size="small">
+                      <InputLabel id="lfo-shape-select-label">Shape</InputLabel>
+                      <Select
+                        labelId="lfo-shape-select-label"
+                        label="Shape"
+                        value={lfo.shape}
+                        onChange={(e) => updateLFO({ shape: e.target.value as LFOConfig['shape'] })}
+                        sx={{ height: 32 }}
+                        MenuProps={{
+                          sx: { zIndex: 9999 }
+                        }}
+                      >
+                        <MenuItem value="sine">Sine</MenuItem>
+                        <MenuItem value="triangle">Triangle</MenuItem>
+                        <MenuItem value="saw">Saw</MenuItem>
+                        <MenuItem value="square">Square</MenuItem>
+                        <MenuItem value="random">Random S&amp;H</MenuItem>
+                      </Select>
+                    </FormControl>
+
+                    <FormControl fullWidth size="small">
+                      <InputLabel id="lfo-sync-select-label">Tempo Sync</InputLabel>
+                      <Select
+                        labelId="lfo-sync-select-label"
+                        label="Tempo Sync"
+                        value={lfo.sync ?? ''}
+                        onChange={(e) => updateLFO({ sync: (e.target.value as ClockDivision) || undefined })}
+                        sx={{ height: 32 }}
+                        MenuProps={{
+                          sx: { zIndex: 9999 }
+                        }}
+                      >
+                        <MenuItem value="">Off</MenuItem>
+                        {Object.keys(CLOCK_DIVISIONS).map(division => (
+                          <MenuItem key={division} value={division}>
+                            {division}
+                          </MenuItem>
+                        ))}
+                      </Select>
+                    </FormControl>
+                  </Box>
+
+                  {!lfo.sync && (
+                    <TextField
+                      label="Rate (Hz)"
+                      type="number"
+                      value={lfo.rate}
+                      onChange={(e) => {
+                        const numValue = parseFloat(e.target.value);
+                        if (!isNaN(numValue) && numValue >= 0) {
+                          updateLFO({ rate: numValue });
+                        }
+                      }}
+                      inputProps={{ min: 0, step: 0.1 }}
+                      size="small"
+                      fullWidth
+                      sx={{ mb: 2 }}
+                    />
+                  )}
+
+                  <Box sx={{ display: 'flex', gap: 1, mb: 2 }}>
+                    <TextField
+                      label="Depth (%)"
+                      type="number"
+                      value={Math.round(lfo.depth * 100)}
+                      onChange={(e) => handlePercentChange('depth', e.target.value)}
+                      inputProps={{ min: 0, max: 100 }}
+                      size="small"
+                    />
+                    <TextField
+                      label="Offset (%)"
+                      type="number"
+                      value={Math.round(lfo.offset * 100)}
+                      onChange={(e) => handlePercentChange('offset', e.target.value)}
+                      inputProps={{ min: 0, max: 100 }}
+                      size="small"
+                    />
+                  </Box>
+                </>
+              )}
+            </>
+          )}
         </>
       )}
 
@@ -197,6 +561,610 @@ const ExtraTabContent = memo(({
         </>
       )}
 
+      {selectedControl.type === 'program' && (
+        <>
+          <Box sx={{ mb: 1 }}>
+            <Typography variant="caption" fontWeight="bold">Programs</Typography>
+          </Box>
+
+          {programs.map((entry, index) => (
+            <Box key={index} sx={{ display: 'flex', alignItems: 'center', gap: 0.5, mb: 1 }}>
+              <TextField
+                label="Name"
+                value={entry.name}
+                onChange={(e) => updateProgram(index, { name: e.target.value })}
+                size="small"
+                sx={{ flexGrow: 1, minWidth: 80 }}
+              />
+              <TextField
+                label="MSB"
+                type="number"
+                value={entry.bankMsb ?? ''}
+                onChange={(e) => updateProgram(index, { bankMsb: parseOptionalByte(e.target.value) })}
+                inputProps={{ min: 0, max: 127 }}
+                size="small"
+                sx={{ width: 60 }}
+              />
+              <TextField
+                label="LSB"
+                type="number"
+                value={entry.bankLsb ?? ''}
+                onChange={(e) => updateProgram(index, { bankLsb: parseOptionalByte(e.target.value) })}
+                inputProps={{ min: 0, max: 127 }}
+                size="small"
+                sx={{ width: 60 }}
+              />
+              <TextField
+                label="PC"
+                type="number"
+                value={entry.program}
+                onChange={(e) => updateProgram(index, { program: parseOptionalByte(e.target.value) ?? 0 })}
+                inputProps={{ min: 0, max: 127 }}
+                size="small"
+                sx={{ width: 60 }}
+              />
+              <IconButton size="small" onClick={() => removeProgram(index)}>
+                <DeleteIcon fontSize="small" />
+              </IconButton>
+            </Box>
+          ))}
+
+          <Typography variant="caption" color="text.secondary" component="div" sx={{ mb: 1 }}>
+            Leave MSB/LSB empty to skip Bank Select
+          </Typography>
+
+          <Button size="small" startIcon={<AddIcon />} onClick={addProgram}>
+            Add Program
+          </Button>
+        </>
+      )}
+
+      {(selectedControl.type === 'selector' || selectedControl.type === 'list') && (
+        <>
+          {selectedControl.type === 'selector' ? (
+            <Box sx={{ display: 'flex', alignItems: 'center', mb: 2 }}>
+              <FormControl fullWidth size="small">
+                <InputLabel id="selector-orientation-select-label">Orientation</InputLabel>
+                <Select
+                  labelId="selector-orientation-select-label"
+                  label="Orientation"
+                  value={selectedControl.config.orientation || 'horizontal'}
+                  onChange={(e) => updateControlConfig('orientation', e.target.value)}
+                  sx={{ height: 32 }}
+                  MenuProps={{
+                    sx: { zIndex: 9999 }
+                  }}
+                >
+                  <MenuItem value="horizontal">Horizontal</MenuItem>
+                  <MenuItem value="vertical">Vertical</MenuItem>
+                </Select>
+              </FormControl>
+            </Box>
+          ) : (
+            <Box sx={{ display: 'flex', alignItems: 'center', mb: 2 }}>
+              <FormControl fullWidth size="small">
+                <InputLabel id="list-style-select-label">List Style</InputLabel>
+                <Select
+                  labelId="list-style-select-label"
+                  label="List Style"
+                  value={selectedControl.config.listStyle || 'dropdown'}
+                  onChange={(e) => updateControlConfig('listStyle', e.target.value)}
+                  sx={{ height: 32 }}
+                  MenuProps={{
+                    sx: { zIndex: 9999 }
+                  }}
+                >
+                  <MenuItem value="dropdown">Dropdown</MenuItem>
+                  <MenuItem value="list">Scrolling List</MenuItem>
+                </Select>
+              </FormControl>
+            </Box>
+          )}
+
+          <Box sx={{ mb: 1 }}>
+            <Typography variant="caption" fontWeight="bold">Options</Typography>
+          </Box>
+
+          {options.map((option, index) => (
+            <Box key={index} sx={{ display: 'flex', alignItems: 'center', gap: 0.5, mb: 1 }}>
+              <TextField
+                label="Label"
+                value={option.label}
+                onChange={(e) => updateOption(index, { label: e.target.value })}
+                size="small"
+                sx={{ flexGrow: 1, minWidth: 80 }}
+              />
+              <TextField
+                label="Value"
+                type="number"
+                value={option.value}
+                onChange={(e) => updateOption(index, { value: parseOptionalByte(e.target.value) ?? 0 })}
+                inputProps={{ min: 0, max: 127 }}
+                size="small"
+                sx={{ width: 70 }}
+              />
+              <IconButton size="small" onClick={() => removeOption(index)}>
+                <DeleteIcon fontSize="small" />
+              </IconButton>
+            </Box>
+          ))}
+
+          <Box sx={{ display: 'flex', gap: 1 }}>
+            <Button size="small" startIcon={<AddIcon />} onClick={addOption}>
+              Add Option
+            </Button>
+            <Button
+              size="small"
+              onClick={() => updateControlConfig('options', spreadOptionValues(options))}
+              disabled={options.length === 0}
+            >
+              Spread Evenly
+            </Button>
+          </Box>
+        </>
+      )}
+
+      {selectedControl.type === 'macro' && (
+        <>
+          <Box sx={{ mb: 1 }}>
+            <Typography variant="caption" fontWeight="bold">Targets</Typography>
+          </Box>
+
+          {macroTargets.map((target, index) => (
+            <Box
+              key={index}
+              sx={{ border: 1, borderColor: 'divider', borderRadius: 1, p: 1, mb: 1 }}
+            >
+              <Box sx={{ display: 'flex', alignItems: 'center', gap: 0.5, mb: 1 }}>
+                <TextField
+                  label="Ch"
+                  type="number"
+                  value={target.channel}
+                  onChange={(e) => updateMacroTarget(index, {
+                    channel: Math.max(1, Math.min(16, parseInt(e.target.value, 10) || 1))
+                  })}
+                  inputProps={{ min: 1, max: 16 }}
+                  size="small"
+                  sx={{ width: 60 }}
+                />
+                <TextField
+                  label="CC"
+                  type="number"
+                  value={target.cc}
+                  onChange={(e) => updateMacroTarget(index, { cc: parseOptionalByte(e.target.value) ?? 0 })}
+                  inputProps={{ min: 0, max: 127 }}
+                  size="small"
+                  sx={{ width: 60 }}
+                />
+                <TextField
+                  label="Min"
+                  type="number"
+                  value={target.min}
+                  onChange={(e) => updateMacroTarget(index, { min: parseOptionalByte(e.target.value) ?? 0 })}
+                  inputProps={{ min: 0, max: 127 }}
+                  size="small"
+                  sx={{ width: 60 }}
+                />
+                <TextField
+                  label="Max"
+                  type="number"
+                  value={target.max}
+                  onChange={(e) => updateMacroTarget(index, { max: parseOptionalByte(e.target.value) ?? 0 })}
+                  inputProps={{ min: 0, max: 127 }}
+                  size="small"
+                  sx={{ width: 60 }}
+                />
+              </Box>
+
+              <Box sx={{ display: 'flex', alignItems: 'center', gap: 0.5 }}>
+                <FormControl size="small" sx={{ flexGrow: 1 }}>
+                  <InputLabel id={`macro-curve-label-${index}`}>Curve</InputLabel>
+                  <Select
+                    labelId={`macro-curve-label-${index}`}
+                    label="Curve"
+                    value={target.curve ?? 'linear'}
+                    onChange={(e) => updateMacroTarget(index, { curve: e.target.value as MacroTarget['curve'] })}
+                    sx={{ height: 32 }}
+                    MenuProps={{
+                      sx: { zIndex: 9999 }
+                    }}
+                  >
+                    <MenuItem value="linear">Linear</MenuItem>
+                    <MenuItem value="exponential">Exponential</MenuItem>
+                    <MenuItem value="logarithmic">Logarithmic</MenuItem>
+                    <MenuItem value="scurve">S-Curve</MenuItem>
+                  </Select>
+                </FormControl>
+                <FormControlLabel
+                  control={
+                    <Switch
+                      checked={!!target.invert}
+                      onChange={(e) => updateMacroTarget(index, { invert: e.target.checked })}
+                      size="small"
+                    />
+                  }
+                  label="Invert"
+                  sx={{ mr: 0 }}
+                />
+                <IconButton size="small" onClick={() => removeMacroTarget(index)}>
+                  <DeleteIcon fontSize="small" />
+                </IconButton>
+              </Box>
+            </Box>
+          ))}
+
+          <Button size="small" startIcon={<AddIcon />} onClick={addMacroTarget}>
+            Add Target
+          </Button>
+
+          <Box sx={{ display: 'flex', alignItems: 'center', mt: 2 }}>
+            <FormControl fullWidth size="small">
+              <InputLabel id="macro-orientation-select-label">Orientation</InputLabel>
+              <Select
+                labelId="macro-orientation-select-label"
+                label="Orientation"
+                value={selectedControl.config.orientation || 'vertical'}
+                onChange={(e) => updateControlConfig('orientation', e.target.value)}
+                sx={{ height: 32 }}
+                MenuProps={{
+                  sx: { zIndex: 9999 }
+                }}
+              >
+                <MenuItem value="vertical">Vertical</MenuItem>
+                <MenuItem value="horizontal">Horizontal</MenuItem>
+              </Select>
+            </FormControl>
+          </Box>
+        </>
+      )}
+
+      {selectedControl.type === 'xypad' && (
+        <>
+          <Box sx={{ mb: 1 }}>
+            <Typography variant="caption" fontWeight="bold">Spring Return</Typography>
+          </Box>
+
+          <FormControlLabel
+            control={
+              <Switch
+                checked={!!xyPad.x.springReturn}
+                onChange={(e) => updateSpringReturn('x', e.target.checked)}
+                size="small"
+              />
+            }
+            label="X returns to centre"
+          />
+
+          <FormControlLabel
+            control={
+              <Switch
+                checked={!!xyPad.y.springReturn}
+                onChange={(e) => updateSpringReturn('y', e.target.checked)}
+                size="small"
+              />
+            }
+            label="Y returns to centre"
+          />
+        </>
+      )}
+
+      {selectedControl.type === 'padgrid' && (
+        <>
+          <Box sx={{ display: 'flex', gap: 1, mb: 2 }}>
+            <TextField
+              label="Rows"
+              type="number"
+              value={padGrid.rows}
+              onChange={(e) => handlePadGridNumber('rows', e.target.value)}
+              inputProps={{ min: 1, max: MAX_PAD_GRID_SIZE }}
+              size="small"
+            />
+            <TextField
+              label="Columns"
+              type="number"
+              value={padGrid.columns}
+              onChange={(e) => handlePadGridNumber('columns', e.target.value)}
+              inputProps={{ min: 1, max: MAX_PAD_GRID_SIZE }}
+              size="small"
+            />
+          </Box>
+
+          <TextField
+            label="Base Note"
+            type="number"
+            value={padGrid.baseNote}
+            onChange={(e) => handlePadGridNumber('baseNote', e.target.value)}
+            inputProps={{ min: 0, max: 127 }}
+            helperText={`Bottom-left pad: ${getNoteName(padGrid.baseNote)}`}
+            size="small"
+            fullWidth
+            sx={{ mb: 2 }}
+          />
+
+          <Box sx={{ display: 'flex', gap: 1, mb: 2 }}>
+            <FormControl fullWidth size="small">
+              <InputLabel id="pad-scale-select-label">Scale</InputLabel>
+              <Select
+                labelId="pad-scale-select-label"
+                label="Scale"
+                value={padGrid.scale ?? 'chromatic'}
+                onChange={(e) => updatePadGrid({ scale: e.target.value as PadGridConfig['scale'] })}
+                sx={{ height: 32 }}
+                MenuProps={{
+                  sx: { zIndex: 9999 }
+                }}
+              >
+                <MenuItem value="chromatic">Chromatic</MenuItem>
+                <MenuItem value="major">Major</MenuItem>
+                <MenuItem value="minor">Minor</MenuItem>
+                <MenuItem value="majorPentatonic">Major Pentatonic</MenuItem>
+                <MenuItem value="minorPentatonic">Minor Pentatonic</MenuItem>
+              </Select>
+            </FormControl>
+
+            <FormControl fullWidth size="small">
+              <InputLabel id="pad-layout-select-label">Row Layout</InputLabel>
+              <Select
+                labelId="pad-layout-select-label"
+                label="Row Layout"
+                value={padGrid.layout ?? 'sequential'}
+                onChange={(e) => updatePadGrid({ layout: e.target.value as PadGridConfig['layout'] })}
+                sx={{ height: 32 }}
+                MenuProps={{
+                  sx: { zIndex: 9999 }
+                }}
+              >
+                <MenuItem value="sequential">Sequential</MenuItem>
+                <MenuItem value="fourths">In Fourths</MenuItem>
+              </Select>
+            </FormControl>
+          </Box>
+
+          <Box sx={{ display: 'flex', gap: 1, mb: 2 }}>
+            <FormControl fullWidth size="small">
+              <InputLabel id="pad-velocity-select-label">Velocity From</InputLabel>
+              <Select
+                labelId="pad-velocity-select-label"
+                label="Velocity From"
+                value={padGrid.velocityMode ?? 'fixed'}
+                onChange={(e) => updatePadGrid({ velocityMode: e.target.value as PadGridConfig['velocityMode'] })}
+                sx={{ height: 32 }}
+                MenuProps={{
+                  sx: { zIndex: 9999 }
+                }}
+              >
+                <MenuItem value="fixed">Fixed</MenuItem>
+                <MenuItem value="position">Height on Pad</MenuItem>
+                <MenuItem value="pressure">Touch Pressure</MenuItem>
+              </Select>
+            </FormControl>
+
+            {padGrid.velocityMode !== 'position' && (
+              <TextField
+                label={padGrid.velocityMode === 'pressure' ? 'Fallback' : 'Velocity'}
+                type="number"
+                value={padGrid.velocity ?? 100}
+                onChange={(e) => handlePadGridNumber('velocity', e.target.value)}
+                inputProps={{ min: 1, max: 127 }}
+                size="small"
+                sx={{ width: 100, flexShrink: 0 }}
+              />
+            )}
+          </Box>
+        </>
+      )}
+
+      {selectedControl.type === 'keyboard' && (
+        <>
+          <Box sx={{ display: 'flex', gap: 1, mb: 2 }}>
+            <FormControl fullWidth size="small">
+              <InputLabel id="keyboard-octave-select-label">Lowest Key</InputLabel>
+              <Select
+                labelId="keyboard-octave-select-label"
+                label="Lowest Key"
+                value={keyboard.startOctave}
+                onChange={(e) => updateKeyboard({ startOctave: Number(e.target.value) })}
+                sx={{ height: 32 }}
+                MenuProps={{
+                  sx: { zIndex: 9999 }
+                }}
+              >
+                {Array.from({ length: MAX_OCTAVE - keyboard.octaves - MIN_OCTAVE + 1 }, (_, i) => MIN_OCTAVE + i).map(octave => (
+                  <MenuItem key={octave} value={octave}>
+                    C{octave}
+                  </MenuItem>
+                ))}
+              </Select>
+            </FormControl>
+
+            <FormControl fullWidth size="small">
+              <InputLabel id="keyboard-octaves-select-label">Octaves</InputLabel>
+              <Select
+                labelId="keyboard-octaves-select-label"
+                label="Octaves"
+                value={keyboard.octaves}
+                onChange={(e) => updateKeyboard({ octaves: Number(e.target.value) })}
+                sx={{ height: 32 }}
+                MenuProps={{
+                  sx: { zIndex: 9999 }
+                }}
+              >
+                {Array.from({ length: MAX_KEYBOARD_OCTAVES }, (_, i) => i + 1).map(octaves => (
+                  <MenuItem key={octaves} value={octaves}>
+                    {octaves}
+                  </MenuItem>
+                ))}
+              </Select>
+            </FormControl>
+          </Box>
+
+          <TextField
+            label="Velocity"
+            type="number"
+            value={keyboard.velocity ?? 100}
+            onChange={(e) => {
+              const numValue = parseInt(e.target.value, 10);
+              if (!isNaN(numValue)) {
+                updateKeyboard({ velocity: Math.max(1, Math.min(127, numValue)) });
+              }
+            }}
+            inputProps={{ min: 1, max: 127 }}
+            size="small"
+            fullWidth
+            sx={{ mb: 2 }}
+          />
+
+          <Typography variant="caption" color="text.secondary" component="div">
+            The octave buttons shift the range while playing. Sus sends CC 64.
+          </Typography>
+        </>
+      )}
+
+      {selectedControl.type === 'sequencer' && (
+        <>
+          <Box sx={{ display: 'flex', gap: 1, mb: 2 }}>
+            <FormControl fullWidth size="small">
+              <InputLabel id="sequencer-length-select-label">Steps</InputLabel>
+              <Select
+                labelId="sequencer-length-select-label"
+                label="Steps"
+                value={sequencer.steps.length}
+                onChange={(e) => updateSequencer({ steps: resizeSequencerSteps(sequencer.steps, Number(e.target.value)) })}
+                sx={{ height: 32 }}
+                MenuProps={{
+                  sx: { zIndex: 9999 }
+                }}
+              >
+                {SEQUENCER_LENGTHS.map(length => (
+                  <MenuItem key={length} value={length}>
+                    {length}
+                  </MenuItem>
+                ))}
+              </Select>
+            </FormControl>
+
+            <FormControl fullWidth size="small">
+              <InputLabel id="sequencer-division-select-label">Step Length</InputLabel>
+              <Select
+                labelId="sequencer-division-select-label"
+                label="Step Length"
+                value={sequencer.division ?? '1/16'}
+                onChange={(e) => updateSequencer({ division: e.target.value as ClockDivision })}
+                sx={{ height: 32 }}
+                MenuProps={{
+                  sx: { zIndex: 9999 }
+                }}
+              >
+                {Object.keys(CLOCK_DIVISIONS).map(division => (
+                  <MenuItem key={division} value={division}>
+                    {division}
+                  </MenuItem>
+                ))}
+              </Select>
+            </FormControl>
+          </Box>
+
+          <TextField
+            label="Swing (%)"
+            type="number"
+            value={sequencer.swing ?? MIN_SWING}
+            onChange={(e) => {
+              const numValue = parseFloat(e.target.value);
+              if (!isNaN(numValue)) {
+                updateSequencer({ swing: Math.max(MIN_SWING, Math.min(MAX_SWING, numValue)) });
+              }
+            }}
+            inputProps={{ min: MIN_SWING, max: MAX_SWING }}
+            helperText="50 is straight, 67 is a triplet feel"
+            size="small"
+            fullWidth
+            sx={{ mb: 2 }}
+          />
+
+          <Box sx={{ mb: 1 }}>
+            <Typography variant="caption" fontWeight="bold">Pattern</Typography>
+          </Box>
+
+          <Box sx={{ display: 'grid', gridTemplateColumns: 'repeat(8, 1fr)', gap: 0.5, mb: 2 }}>
+            {sequencer.steps.map((entry, index) => (
+              <Box
+                key={index}
+                onClick={() => setSelectedStep(index)}
+                sx={{
+                  height: 24,
+                  borderRadius: 0.5,
+                  cursor: 'pointer',
+                  fontSize: '0.65rem',
+                  display: 'flex',
+                  alignItems: 'center',
+                  justifyContent: 'center',
+                  bgcolor: entry.active ? 'primary.main' : 'action.hover',
+                  color: entry.active ? 'primary.contrastText' : 'text.secondary',
+                  outline: index === selectedStep ? '2px solid' : 'none',
+                  outlineColor: 'text.primary',
+                  outlineOffset: '-2px',
+                }}
+              >
+                {index + 1}
+              </Box>
+            ))}
+          </Box>
+
+          {step && (
+            <>
+              <FormControlLabel
+                control={
+                  <Switch
+                    checked={step.active}
+                    onChange={(e) => updateStep({ active: e.target.checked })}
+                    size="small"
+                  />
+                }
+                label={`Step ${Math.min(selectedStep, sequencer.steps.length - 1) + 1} plays`}
+                sx={{ mb: 1 }}
+              />
+
+              <Box sx={{ display: 'flex', gap: 1, mb: 2 }}>
+                <TextField
+                  label="Note"
+                  type="number"
+                  value={step.note}
+                  onChange={(e) => handleStepNumber('note', e.target.value)}
+                  inputProps={{ min: 0, max: 127 }}
+                  helperText={getNoteName(step.note)}
+                  size="small"
+                />
+                <TextField
+                  label="Velocity"
+                  type="number"
+                  value={step.velocity}
+                  onChange={(e) => handleStepNumber('velocity', e.target.value)}
+                  inputProps={{ min: 1, max: 127 }}
+                  size="small"
+                />
+                <TextField
+                  label="Gate (%)"
+                  type="number"
+                  value={Math.round(step.gate * 100)}
+                  onChange={(e) => {
+                    const numValue = parseFloat(e.target.value);
+                    if (!isNaN(numValue)) {
+                      updateStep({ gate: Math.max(MIN_GATE, Math.min(1, numValue / 100)) });
+                    }
+                  }}
+                  inputProps={{ min: MIN_GATE * 100, max: 100 }}
+                  size="small"
+                />
+              </Box>
+            </>
+          )}
+
+          <Typography variant="caption" color="text.secondary" component="div">
+            Runs from the shared clock, internal or external as set on a transport control.
+          </Typography>
+        </>
+      )}
+
       {selectedControl.type === 'textbox' && (
         <FormControlLabel
           control={
@@ -210,6 +1178,115 @@ const ExtraTabContent = memo(({
         />
       )}
 
+      {selectedControl.type === 'meter' && (
+        <>
+          <Box sx={{ display: 'flex', alignItems: 'center', mb: 2 }}>
+            <FormControl fullWidth size="small">
+              <InputLabel id="meter-display-select-label">Display</InputLabel>
+              <Select
+                labelId="meter-display-select-label"
+                label="Display"
+                value={meter.display}
+                onChange={(e) => updateControlConfig('meter', { ...meter, display: e.target.value as MeterDisplay })}
+                sx={{ height: 32 }}
+                MenuProps={{
+                  sx: { zIndex: 9999 }
+                }}
+              >
+                <MenuItem value="bar">Bar</MenuItem>
+                <MenuItem value="needle">Needle</MenuItem>
+                <MenuItem value="number">Number</MenuItem>
+              </Select>
+            </FormControl>
+          </Box>
+
+          <Box sx={{ display: 'flex', gap: 1, mb: 2 }}>
+            <TextField
+              label="Peak Hold (ms)"
+              type="number"
+              value={meter.peakHold}
+              onChange={(e) => handleMeterNumber('peakHold', e.target.value)}
+              inputProps={{ min: 0, max: MAX_PEAK_HOLD, step: 100 }}
+              size="small"
+              fullWidth
+            />
+            <TextField
+              label="Decay (per sec)"
+              type="number"
+              value={meter.decay}
+              onChange={(e) => handleMeterNumber('decay', e.target.value)}
+              inputProps={{ min: 0, max: MAX_DECAY, step: 10 }}
+              size="small"
+              fullWidth
+            />
+          </Box>
+
+          <Typography variant="caption" color="text.secondary" component="div">
+            A peak hold of 0 hides the peak marker. A decay of 0 follows the input exactly.
+          </Typography>
+        </>
+      )}
+
+      {selectedControl.type === 'history' && (
+        <>
+          <Box sx={{ display: 'flex', alignItems: 'center', mb: 2 }}>
+            <FormControl fullWidth size="small">
+              <InputLabel id="history-source-select-label">Show</InputLabel>
+              <Select
+                labelId="history-source-select-label"
+                label="Show"
+                value={history.source}
+                onChange={(e) => updateControlConfig('history', { ...history, source: e.target.value as HistorySource })}
+                sx={{ height: 32 }}
+                MenuProps={{
+                  sx: { zIndex: 9999 }
+                }}
+              >
+                <MenuItem value="incoming">Incoming</MenuItem>
+                <MenuItem value="outgoing">Outgoing</MenuItem>
+                <MenuItem value="both">Incoming and Outgoing</MenuItem>
+              </Select>
+            </FormControl>
+          </Box>
+
+          <TextField
+            label="Time Window (s)"
+            type="number"
+            value={history.window}
+            onChange={(e) => handleHistoryNumber('window', e.target.value)}
+            inputProps={{ min: MIN_HISTORY_WINDOW, max: MAX_HISTORY_WINDOW }}
+            size="small"
+            fullWidth
+            sx={{ mb: 2 }}
+          />
+
+          <Box sx={{ display: 'flex', gap: 1, mb: 2 }}>
+            <TextField
+              label="Bottom"
+              type="number"
+              value={history.min}
+              onChange={(e) => handleHistoryNumber('min', e.target.value)}
+              inputProps={{ min: 0, max: 127 }}
+              size="small"
+              fullWidth
+            />
+            <TextField
+              label="Top"
+              type="number"
+              value={history.max}
+              onChange={(e) => handleHistoryNumber('max', e.target.value)}
+              inputProps={{ min: 0, max: 127 }}
+              size="small"
+              fullWidth
+            />
+          </Box>
+
+          <Typography variant="caption" color="text.secondary" component="div">
+            Outgoing includes every control and LFO sending this CC, also as part of 14-bit CC or NRPN/RPN.
+          </Typography>
+        </>
+      )}
+
       {selectedControl.type === 'label' && (
         <>
           <Box sx={{ display: 'flex', alignItems: 'center', mb: 1 }}>
@@ -1,61 +1,523 @@
 import { memo } from 'react';
-import { Box, FormControl, Select, MenuItem, InputLabel, TextField } from '@mui/material';
-import { ControlItem } from '../../types/index';
+import { Box, FormControl, Select, MenuItem, InputLabel, TextField, FormControlLabel, Switch, Typography } from '@mui/material';
+import { ControlItem, MeterConfig, MeterSource, SysExConfig, XYPadConfig } from '../../types/index';
+import { CC14_LSB_OFFSET, CC14_MAX, DEFAULT_NOTE, DEFAULT_VELOCITY, MIDI_PORT_ALL } from '../../midi/midiHandler';
+import { getNoteName } from '../../utils/midiHelpers';
+import { buildSysExMessage, formatSysExHex, DEFAULT_CHECKSUM_START } from '../../utils/sysexHelpers';
+import { OutputStatus } from '../TopBar';
+import { DEFAULT_XY_PAD, DEFAULT_XY_TOUCH } from '../../utils/xyPadHelpers';
+import { CLOCK_DIVISIONS, ClockDivision, ClockSource, DEFAULT_BPM, MAX_BPM, MIN_BPM } from '../../midi/midiClock';
+import { DEFAULT_METER } from '../../utils/meterHelpers';
 
 interface MidiTabContentProps {
   selectedControl: ControlItem;
+  controls?: ControlItem[];
+  outputDevices?: OutputStatus[];
+  updateControlConfig: (key: string, value: any) => void;
   updateMidiConfig: (key: string, value: any) => void;
 }
 
 const MidiTabContent = memo(({
   selectedControl,
+  controls = [],
+  outputDevices = [],
+  updateControlConfig,
   updateMidiConfig
 }: MidiTabContentProps) => {
-  return (
-    <Box sx={{ pt: 1 }}>
-      <Box sx={{ display: 'flex', alignItems: 'center', mb: 1 }}>
-        <FormControl size="small" fullWidth>
-        <InputLabel id="channel-select-label">Channel</InputLabel>
+  const messageType = selectedControl.config.midi?.messageType || 'cc';
+  const isParameter = messageType === 'nrpn' || messageType === 'rpn';
+  const supportsMessageType = ['slider', 'knob', 'textbox', 'button', 'toggle'].includes(selectedControl.type);
+  const supportsHighResolution = ['slider', 'knob', 'textbox'].includes(selectedControl.type);
+  const supportsNote = selectedControl.type === 'button' || selectedControl.type === 'toggle';
+  const note = Number(selectedControl.config.midi?.note ?? DEFAULT_NOTE);
+  const cc = Number(selectedControl.config.midi?.cc ?? 0);
+  const isSysEx = selectedControl.type === 'sysex';
+  const isMeter = selectedControl.type === 'meter';
+  // Meters and history graphs only listen, so there is no output to pick
+  const isListenOnly = isMeter || selectedControl.type === 'history';
+  const meter: MeterConfig = selectedControl.config.meter ?? DEFAULT_METER;
+  // Program changes, note controls and meters not showing a CC only need a channel
+  const isChannelOnly = ['program', 'padgrid', 'keyboard', 'sequencer'].includes(selectedControl.type)
+    || (isMeter && meter.source !== 'cc');
+  const sysex: SysExConfig = selectedControl.config.sysex ?? { message: '' };
+  const sysexPreview = isSysEx ? buildSysExMessage(sysex) : null;
+  const supportsQuantize = ['slider', 'knob', 'button'].includes(selectedControl.type);
+
+  const updateSysExConfig = (changes: Partial<SysExConfig>) => {
+    updateControlConfig('sysex', { ...sysex, ...changes });
+  };
+
+  // Switch between 7-bit and 14-bit values, rescaling min/max to the new range
+  const handleHighResolutionChange = (enabled: boolean) => {
+    const midi = selectedControl.config.midi || {};
+    const scale = enabled ? CC14_MAX / 127 : 127 / CC14_MAX;
+    const rescale = (value: number | undefined, fallback: number) =>
+      Math.round(Number(value ?? fallback) * scale);
+
+    updateControlConfig('midi', {
+      ...midi,
+      highResolution: enabled,
+      min: rescale(midi.min, 0),
+      max: rescale(midi.max, enabled ? 127 : CC14_MAX),
+    });
+  };
+
+  // Transport controls only choose where the clock comes from
+  if (selectedControl.type === 'transport') {
+    const clock = selectedControl.config.clock ?? { source: 'internal' };
+
+    return (
+      <Box sx={{ pt: 1 }}>
+        <FormControl size="small" fullWidth sx={{ mb: 2 }}>
+          <InputLabel id="clock-source-select-label">Clock Source</InputLabel>
           <Select
-            labelId="channel-select-label"
-            label="Channel"
-            value={(selectedControl.config.midi?.channel || 1)}
-            onChange={(e) => updateMidiConfig('channel', Number(e.target.value))}
+            labelId="clock-source-select-label"
+            label="Clock Source"
+            value={clock.source}
+            onChange={(e) => updateControlConfig('clock', { ...clock, source: e.target.value as ClockSource })}
             sx={{ height: 32 }}
             MenuProps={{
               sx: { zIndex: 9999 }
             }}
           >
-            {Array.from({ length: 16 }, (_, i) => (
-              <MenuItem key={i + 1} value={i + 1}>
-                {i + 1}
-              </MenuItem>
-            ))}
+            <MenuItem value="internal">Internal (send clock)</MenuItem>
+            <MenuItem value="external">External (follow input)</MenuItem>
           </Select>
         </FormControl>
+
+        {clock.source === 'internal' && (
+          <TextField
+            label="Starting BPM"
+            type="number"
+            value={clock.bpm ?? DEFAULT_BPM}
+            onChange={(e) => {
+              const bpm = parseFloat(e.target.value);
+              if (!isNaN(bpm)) {
+                updateControlConfig('clock', { ...clock, bpm: Math.max(MIN_BPM, Math.min(MAX_BPM, bpm)) });
+              }
+            }}
+            inputProps={{ min: MIN_BPM, max: MAX_BPM }}
+            size="small"
+            fullWidth
+            sx={{ mb: 2 }}
+          />
+        )}
+
+        <Typography variant="caption" color="text.secondary">
+          Clock and Start/Stop/Continue are sent to every active output.
+        </Typography>
       </Box>
+    );
+  }
 
-      <TextField
-        label="CC Number"
-        type="number"
-        value={selectedControl.config.midi?.cc ?? 1}
-        onChange={(e) => {
-          const value = e.target.value;
-          // Allow empty string
-          if (value === '') {
-            updateMidiConfig('cc', value);
-            return;
-          }
-          // Parse as float to allow decimals
-          const numValue = parseInt(value);
-          if (!isNaN(numValue)) {
-            updateMidiConfig('cc', value);
+  // Macros address each target separately
+  if (selectedControl.type === 'macro') {
+    return (
+      <Box sx={{ pt: 1 }}>
+        <Typography variant="caption" color="text.secondary">
+          Macro targets (channel, CC and range) are set in the Extra tab.
+        </Typography>
+      </Box>
+    );
+  }
+
+  // XY pads send a CC per axis plus an optional touch CC
+  if (selectedControl.type === 'xypad') {
+    const xyPad: XYPadConfig = selectedControl.config.xyPad ?? DEFAULT_XY_PAD;
+
+    const updateXYPad = (changes: Partial<XYPadConfig>) => {
+      updateControlConfig('xyPad', { ...xyPad, ...changes });
+    };
+
+    // Channel is 1-16, everything else is a 0-127 MIDI byte
+    const parseField = (key: string, value: string) => {
+      const numValue = parseInt(value, 10) || 0;
+      return key === 'channel'
+        ? Math.max(1, Math.min(16, numValue))
+        : Math.max(0, Math.min(127, numValue));
+    };
+
+    const renderFields = <T extends object>(
+      values: T,
+      fields: [keyof T & string, string][],
+      onFieldChange: (changes: Partial<T>) => void
+    ) => (
+      <Box sx={{ display: 'flex', gap: 0.5, mb: 2 }}>
+        {fields.map(([key, label]) => (
+          <TextField
+            key={key}
+            label={label}
+            type="number"
+            value={values[key]}
+            onChange={(e) => onFieldChange({ [key]: parseField(key, e.target.value) } as Partial<T>)}
+            size="small"
+            sx={{ width: 64 }}
+          />
+        ))}
+      </Box>
+    );
+
+    return (
+      <Box sx={{ pt: 1 }}>
+        {(['x', 'y'] as const).map(axis => (
+          <Box key={axis}>
+            <Typography variant="caption" fontWeight="bold" component="div" sx={{ mb: 1 }}>
+              {axis.toUpperCase()} Axis
+            </Typography>
+            {renderFields(
+              xyPad[axis],
+              [['channel', 'Ch'], ['cc', 'CC'], ['min', 'Min'], ['max', 'Max']],
+              (changes) => updateXYPad({ [axis]: { ...xyPad[axis], ...changes } })
+            )}
+          </Box>
+        ))}
+
+        <FormControlLabel
+          control={
+            <Switch
+              checked={!!xyPad.touch}
+              onChange={(e) => updateXYPad({ touch: e.target.checked ? DEFAULT_XY_TOUCH : undefined })}
+              size="small"
+            />
           }
-        }}
-        size="small"
-        fullWidth
-        sx={{ mb: 2 }}
-      />
+          label="Send Touch On/Off"
+          sx={{ mb: 1 }}
+        />
+
+        {xyPad.touch && renderFields(
+          xyPad.touch,
+          [['channel', 'Ch'], ['cc', 'CC'], ['onValue', 'On'], ['offValue', 'Off']],
+          (changes) => updateXYPad({ touch: { ...xyPad.touch!, ...changes } })
+        )}
+      </Box>
+    );
+  }
+
+  return (
+    <Box sx={{ pt: 1 }}>
+      {isMeter && (
+        <Box sx={{ display: 'flex', alignItems: 'center', mb: 2 }}>
+          <FormControl size="small" fullWidth>
+            <InputLabel id="meter-source-select-label">Show</InputLabel>
+            <Select
+              labelId="meter-source-select-label"
+              label="Show"
+              value={meter.source}
+              onChange={(e) => updateControlConfig('meter', { ...meter, source: e.target.value as MeterSource })}
+              sx={{ height: 32 }}
+              MenuProps={{
+                sx: { zIndex: 9999 }
+              }}
+            >
+              <MenuItem value="cc">Control Change</MenuItem>
+              <MenuItem value="aftertouch">Channel Aftertouch</MenuItem>
+              <MenuItem value="velocity">Note Velocity</MenuItem>
+            </Select>
+          </FormControl>
+        </Box>
+      )}
+
+      {supportsMessageType && (
+        <Box sx={{ display: 'flex', alignItems: 'center', mb: 2 }}>
+          <FormControl size="small" fullWidth>
+            <InputLabel id="message-type-select-label">Message Type</InputLabel>
+            <Select
+              labelId="message-type-select-label"
+              label="Message Type"
+              value={messageType}
+              onChange={(e) => updateMidiConfig('messageType', e.target.value)}
+              sx={{ height: 32 }}
+              MenuProps={{
+                sx: { zIndex: 9999 }
+              }}
+            >
+              <MenuItem value="cc">Control Change</MenuItem>
+              {(selectedControl.type === 'slider' || selectedControl.type === 'knob') && (
+                <MenuItem value="pitchbend">Pitch Bend (14-bit)</MenuItem>
+              )}
+              {supportsNote && (
+                <MenuItem value="note">Note</MenuItem>
+              )}
+              <MenuItem value="nrpn">NRPN</MenuItem>
+              <MenuItem value="rpn">RPN</MenuItem>
+            </Select>
+          </FormControl>
+        </Box>
+      )}
+
+      {outputDevices.length > 1 && !isListenOnly && (
+        <Box sx={{ display: 'flex', alignItems: 'center', mb: 2 }}>
+          <FormControl size="small" fullWidth>
+            <InputLabel id="port-select-label">Output</InputLabel>
+            <Select
+              labelId="port-select-label"
+              label="Output"
+              value={selectedControl.config.midi?.port ?? ''}
+              onChange={(e) => updateMidiConfig('port', e.target.value || undefined)}
+              sx={{ height: 32 }}
+              MenuProps={{
+                sx: { zIndex: 9999 }
+              }}
+            >
+              <MenuItem value="">Main Output</MenuItem>
+              <MenuItem value={MIDI_PORT_ALL}>All Outputs</MenuItem>
+              {outputDevices.map(device => (
+                <MenuItem key={device.id} value={device.id}>
+                  {device.name}
+                </MenuItem>
+              ))}
+            </Select>
+          </FormControl>
+        </Box>
+      )}
+
+      {supportsQuantize && (
+        <Box sx={{ display: 'flex', alignItems: 'center', mb: 2 }}>
+          <FormControl size="small" fullWidth>
+            <InputLabel id="quantize-select-label">Quantize to Clock</InputLabel>
+            <Select
+              labelId="quantize-select-label"
+              label="Quantize to Clock"
+              value={selectedControl.config.quantize ?? ''}
+              onChange={(e) => updateControlConfig('quantize', (e.target.value as ClockDivision) || undefined)}
+              sx={{ height: 32 }}
+              MenuProps={{
+                sx: { zIndex: 9999 }
+              }}
+            >
+              <MenuItem value="">Off</MenuItem>
+              {Object.keys(CLOCK_DIVISIONS).map(division => (
+                <MenuItem key={division} value={division}>
+                  {division}
+                </MenuItem>
+              ))}
+            </Select>
+          </FormControl>
+        </Box>
+      )}
+
+      {isSysEx && (
+        <>
+          <TextField
+            label="SysEx Message (hex)"
+            value={sysex.message}
+            onChange={(e) => updateSysExConfig({ message: e.target.value })}
+            placeholder="F0 41 10 42 12 40 00 7F {value} F7"
+            error={!sysexPreview}
+            helperText={sysexPreview
+              ? `${sysexPreview.length} bytes: ${formatSysExHex(sysexPreview)}`
+              : 'Enter hex bytes; {value} is replaced by the linked control value'}
+            size="small"
+            fullWidth
+            multiline
+            sx={{ mb: 2 }}
+          />
+
+          <Box sx={{ display: 'flex', gap: 1, mb: 2 }}>
+            <FormControl size="small" fullWidth>
+              <InputLabel id="checksum-select-label">Checksum</InputLabel>
+              <Select
+                labelId="checksum-select-label"
+                label="Checksum"
+                value={sysex.checksum ?? 'none'}
+                onChange={(e) => updateSysExConfig({ checksum: e.target.value as SysExConfig['checksum'], checksumStart: undefined })}
+                sx={{ height: 32 }}
+                MenuProps={{
+                  sx: { zIndex: 9999 }
+                }}
+              >
+                <MenuItem value="none">None</MenuItem>
+                <MenuItem value="roland">Roland</MenuItem>
+                <MenuItem value="yamaha">Yamaha</MenuItem>
+              </Select>
+            </FormControl>
+
+            {sysex.checksum && sysex.checksum !== 'none' && (
+              <TextField
+                label="From Byte"
+                type="number"
+                value={sysex.checksumStart ?? DEFAULT_CHECKSUM_START[sysex.checksum]}
+                onChange={(e) => {
+                  const numValue = parseInt(e.target.value, 10);
+                  updateSysExConfig({ checksumStart: isNaN(numValue) ? undefined : Math.max(1, numValue) });
+                }}
+                inputProps={{ min: 1 }}
+                size="small"
+                sx={{ width: 120, flexShrink: 0 }}
+              />
+            )}
+          </Box>
+
+          <FormControl size="small" fullWidth sx={{ mb: 2 }}>
+            <InputLabel id="linked-control-select-label">Value From</InputLabel>
+            <Select
+              labelId="linked-control-select-label"
+              label="Value From"
+              value={sysex.linkedControlId ?? ''}
+              onChange={(e) => updateSysExConfig({ linkedControlId: e.target.value || undefined })}
+              sx={{ height: 32 }}
+              MenuProps={{
+                sx: { zIndex: 9999 }
+              }}
+            >
+              <MenuItem value="">None</MenuItem>
+              {controls
+                .filter(control => control.type === 'slider' || control.type === 'knob')
+                .map(control => (
+                  <MenuItem key={control.id} value={control.id}>
+                    {control.config.label || 'Slider'}
+                  </MenuItem>
+                ))}
+            </Select>
+          </FormControl>
+        </>
+      )}
+
+      {!isSysEx && (
+        <Box sx={{ display: 'flex', alignItems: 'center', mb: 1 }}>
+          <FormControl size="small" fullWidth>
+            <InputLabel id="channel-select-label">Channel</InputLabel>
+            <Select
+              labelId="channel-select-label"
+              label="Channel"
+              value={(selectedControl.config.midi?.channel || 1)}
+              onChange={(e) => updateMidiConfig('channel', Number(e.target.value))}
+              sx={{ height: 32 }}
+              MenuProps={{
+                sx: { zIndex: 9999 }
+              }}
+            >
+              {Array.from({ length: 16 }, (_, i) => (
+                <MenuItem key={i + 1} value={i + 1}>
+                  {i + 1}
+                </MenuItem>
+              ))}
+            </Select>
+          </FormControl>
+        </Box>
+      )}
+
+      {messageType === 'cc' && !isChannelOnly && !isSysEx && (
+        <TextField
+          label="CC Number"
+          type="number"
+          value={selectedControl.config.midi?.cc ?? 1}
+          onChange={(e) => {
+            const value = e.target.value;
+            // Allow empty string
+            if (value === '') {
+              updateMidiConfig('cc', value);
+              return;
+            }
+            // Parse as float to allow decimals
+            const numValue = parseInt(value);
+            if (!isNaN(numValue)) {
+              updateMidiConfig('cc', value);
+            }
+          }}
+          size="small"
+          fullWidth
+          sx={{ mb: 2 }}
+        />
+      )}
+
+      {messageType === 'cc' && supportsHighResolution && (
+        <Box sx={{ mb: 2 }}>
+          <FormControlLabel
+            control={
+              <Switch
+                checked={!!selectedControl.config.midi?.highResolution}
+                onChange={(e) => handleHighResolutionChange(e.target.checked)}
+                size="small"
+              />
+            }
+            label={`14-bit (CC ${cc} + CC ${cc + CC14_LSB_OFFSET})`}
+          />
+          {selectedControl.config.midi?.highResolution && cc >= CC14_LSB_OFFSET && (
+            <Typography variant="caption" color="error" component="div">
+              14-bit mode needs a CC number between 0 and 31
+            </Typography>
+          )}
+        </Box>
+      )}
+
+      {messageType === 'note' && (
+        <>
+          <TextField
+            label="Note Number"
+            type="number"
+            value={note}
+            onChange={(e) => {
+              const numValue = parseInt(e.target.value, 10);
+              updateMidiConfig('note', isNaN(numValue) ? 0 : Math.max(0, Math.min(127, numValue)));
+            }}
+            inputProps={{ min: 0, max: 127 }}
+            helperText={getNoteName(note)}
+            size="small"
+            fullWidth
+            sx={{ mb: 1 }}
+          />
+
+          <TextField
+            label="Velocity"
+            type="number"
+            value={selectedControl.config.midi?.velocity ?? DEFAULT_VELOCITY}
+            onChange={(e) => {
+              const numValue = parseInt(e.target.value, 10);
+              updateMidiConfig('velocity', isNaN(numValue) ? 1 : Math.max(1, Math.min(127, numValue)));
+            }}
+            inputProps={{ min: 1, max: 127 }}
+            helperText={selectedControl.type === 'toggle' ? 'Note latches on until toggled off' : 'Note plays while held'}
+            size="small"
+            fullWidth
+            sx={{ mb: 2 }}
+          />
+        </>
+      )}
+
+      {isParameter && (
+        <>
+          <TextField
+            label={`${messageType.toUpperCase()} Parameter Number`}
+            type="number"
+            value={selectedControl.config.midi?.parameter ?? 0}
+            onChange={(e) => {
+              const numValue = parseInt(e.target.value, 10);
+              updateMidiConfig('parameter', isNaN(numValue) ? 0 : Math.max(0, Math.min(CC14_MAX, numValue)));
+            }}
+            inputProps={{ min: 0, max: CC14_MAX }}
+            helperText={`MSB ${(Number(selectedControl.config.midi?.parameter ?? 0) >> 7) & 0x7F} / LSB ${Number(selectedControl.config.midi?.parameter ?? 0) & 0x7F}`}
+            size="small"
+            fullWidth
+            sx={{ mb: 1 }}
+          />
+
+          {supportsHighResolution && (
+            <FormControlLabel
+              control={
+                <Switch
+                  checked={!!selectedControl.config.midi?.highResolution}
+                  onChange={(e) => handleHighResolutionChange(e.target.checked)}
+                  size="small"
+                />
+              }
+              label="14-bit Data Entry (CC 6 + CC 38)"
+            />
+          )}
+
+          <FormControlLabel
+            control={
+              <Switch
+                checked={!!selectedControl.config.midi?.nullTermination}
+                onChange={(e) => updateMidiConfig('nullTermination', e.target.checked)}
+                size="small"
+              />
+            }
+            label="Null RPN Termination"
+            sx={{ mb: 2 }}
+          />
+        </>
+      )}
 
       {(selectedControl.type === 'textbox') && (
         <>
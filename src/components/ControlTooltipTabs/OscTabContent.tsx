@@ -0,0 +1,116 @@
+import { memo } from 'react';
+import { Box, FormControl, Select, MenuItem, InputLabel, TextField, FormControlLabel, Switch, Typography } from '@mui/material';
+import { ControlItem, OSCConfig } from '../../types/index';
+import { getDefaultOSCRange } from '../../osc/oscHandler';
+
+// Control types that can send and follow OSC
+export const OSC_CONTROL_TYPES = ['slider', 'knob', 'button', 'toggle'];
+
+interface OscTabContentProps {
+  selectedControl: ControlItem;
+  updateControlConfig: (key: string, value: any) => void;
+}
+
+const OscTabContent = memo(({
+  selectedControl,
+  updateControlConfig
+}: OscTabContentProps) => {
+  const osc = selectedControl.config.osc;
+  const argType = osc?.argType ?? 'float';
+  const [defaultMin, defaultMax] = getDefaultOSCRange(argType);
+
+  if (!OSC_CONTROL_TYPES.includes(selectedControl.type)) {
+    return (
+      <Typography variant="body2" color="text.secondary" sx={{ pt: 1 }}>
+        OSC is available for sliders, knobs, buttons and toggles.
+      </Typography>
+    );
+  }
+
+  const updateOSCConfig = (changes: Partial<OSCConfig>) => {
+    updateControlConfig('osc', { address: '', argType: 'float', ...osc, ...changes });
+  };
+
+  // Empty range fields fall back to the type's default
+  const handleRangeChange = (key: 'min' | 'max', value: string) => {
+    const numValue = parseFloat(value);
+    updateOSCConfig({ [key]: value === '' || isNaN(numValue) ? undefined : numValue });
+  };
+
+  return (
+    <Box sx={{ pt: 1 }}>
+      <TextField
+        label="OSC Address"
+        placeholder="/mixer/ch1/fader"
+        value={osc?.address ?? ''}
+        onChange={(e) => updateOSCConfig({ address: e.target.value })}
+        error={!!osc?.address && !osc.address.startsWith('/')}
+        helperText={osc?.address && !osc.address.startsWith('/') ? 'Addresses start with /' : undefined}
+        size="small"
+        fullWidth
+        sx={{ mb: 2 }}
+      />
+
+      <FormControl size="small" fullWidth sx={{ mb: 2 }} disabled={!osc?.address}>
+        <InputLabel id="osc-type-select-label">Argument Type</InputLabel>
+        <Select
+          labelId="osc-type-select-label"
+          label="Argument Type"
+          value={argType}
+          // Reset the range so it matches the new type's default
+          onChange={(e) => updateOSCConfig({ argType: e.target.value as OSCConfig['argType'], min: undefined, max: undefined })}
+          MenuProps={{
+            sx: { zIndex: 9999 }
+          }}
+        >
+          <MenuItem value="float">Float</MenuItem>
+          <MenuItem value="int">Integer</MenuItem>
+          <MenuItem value="bool">Boolean (True/False)</MenuItem>
+        </Select>
+      </FormControl>
+
+      {argType !== 'bool' && (
+        <Box sx={{ display: 'flex', gap: 1, mb: 2 }}>
+          <TextField
+            label="OSC Min"
+            type="number"
+            value={osc?.min ?? ''}
+            placeholder={String(defaultMin)}
+            onChange={(e) => handleRangeChange('min', e.target.value)}
+            disabled={!osc?.address}
+            size="small"
+            InputLabelProps={{ shrink: true }}
+          />
+          <TextField
+            label="OSC Max"
+            type="number"
+            value={osc?.max ?? ''}
+            placeholder={String(defaultMax)}
+            onChange={(e) => handleRangeChange('max', e.target.value)}
+            disabled={!osc?.address}
+            size="small"
+            InputLabelProps={{ shrink: true }}
+          />
+        </Box>
+      )}
+
+      <FormControlLabel
+        control={
+          <Switch
+            checked={osc?.receive ?? true}
+            onChange={(e) => updateOSCConfig({ receive: e.target.checked })}
+            disabled={!osc?.address}
+          />
+        }
+        label="Follow incoming OSC"
+      />
+
+      <Typography variant="caption" color="text.secondary" component="p" sx={{ mt: 1 }}>
+        The control's MIDI range is mapped onto the OSC range. Set the OSC bridge address in Settings.
+      </Typography>
+    </Box>
+  );
+});
+
+OscTabContent.displayName = 'OscTabContent';
+export default OscTabContent;
@@ -6,6 +6,19 @@ import MidiToggle from './ControlItems/MidiToggle';
 import MidiButton from './ControlItems/MidiButton';
 import LabelControl from './ControlItems/LabelControl';
 import TextBoxControl from './ControlItems/TextBoxControl';
+import MidiProgramChange from './ControlItems/MidiProgramChange';
+import MidiSysExButton from './ControlItems/MidiSysExButton';
+import MidiTransport from './ControlItems/MidiTransport';
+import MidiMacro from './ControlItems/MidiMacro';
+import MidiKnob from './ControlItems/MidiKnob';
+import MidiXYPad from './ControlItems/MidiXYPad';
+import MidiPadGrid from './ControlItems/MidiPadGrid';
+import MidiKeyboard from './ControlItems/MidiKeyboard';
+import MidiSequencer from './ControlItems/MidiSequencer';
+import MidiSelector from './ControlItems/MidiSelector';
+import MidiList from './ControlItems/MidiList';
+import MidiMeter from './ControlItems/MidiMeter';
+import MidiHistory from './ControlItems/MidiHistory';
 import theme from '../simplifiedTheme';
 
 // Add these type definitions at the top of the file after imports
@@ -26,6 +39,7 @@ interface GridItemProps {
   onSelect: (element: HTMLElement | null) => void;
   onDragStart: (e: React.MouseEvent) => void;
   onResizeStart: (e: React.MouseEvent, handle: ResizeHandle) => void;
+  onUpdateControl?: (id: string, updatedValues: Partial<ControlItem>) => void;
   // Update this line to include isMultiSelected parameter:
   onContextMenu?: (e: React.MouseEvent, element: HTMLElement | null, isMultiSelected?: boolean) => void;
   onLongPress?: (element: HTMLElement | null) => void;
@@ -50,6 +64,7 @@ const GridItem = memo(({
   onSelect,
   onDragStart,
   onResizeStart,
+  onUpdateControl,
   onContextMenu, // New prop
   transitionSettings = { duration: 300, easing: 'cubic-bezier(0.4, 0, 0.2, 1)' }, // Default values
   settings,
@@ -105,6 +120,32 @@ const GridItem = memo(({
         return <LabelControl {...commonProps} />;
       case 'textbox':
         return <TextBoxControl {...commonProps} />;
+      case 'program':
+        return <MidiProgramChange {...commonProps} />;
+      case 'sysex':
+        return <MidiSysExButton {...commonProps} />;
+      case 'transport':
+        return <MidiTransport {...commonProps} />;
+      case 'macro':
+        return <MidiMacro {...commonProps} />;
+      case 'knob':
+        return <MidiKnob {...commonProps} />;
+      case 'xypad':
+        return <MidiXYPad {...commonProps} />;
+      case 'padgrid':
+        return <MidiPadGrid {...commonProps} />;
+      case 'keyboard':
+        return <MidiKeyboard {...commonProps} />;
+      case 'sequencer':
+        return <MidiSequencer {...commonProps} onUpdateControl={onUpdateControl} />;
+      case 'selector':
+        return <MidiSelector {...commonProps} />;
+      case 'list':
+        return <MidiList {...commonProps} />;
+      case 'meter':
+        return <MidiMeter {...commonProps} />;
+      case 'history':
+        return <MidiHistory {...commonProps} />;
       default:
         return <Box>Unknown control type</Box>;
     }
@@ -367,6 +408,7 @@ const GridItem = memo(({
   // Custom comparison function for memo
   const prevSameProps = (
     prevProps.control.id === nextProps.control.id &&
+    prevProps.control.config === nextProps.control.config &&
     prevProps.control.position.x === nextProps.control.position.x &&
     prevProps.control.position.y === nextProps.control.position.y &&
     prevProps.control.size.w === nextProps.control.size.w &&
@@ -1,4 +1,4 @@
-import { useState, useEffect, useRef } from 'react';
+import { useState, useEffect, useRef, useCallback } from 'react';
 import {
   Box,
   Button,
@@ -26,21 +26,35 @@ import {
   ToggleOn as ToggleOnIcon,
   SmartButton as ButtonIcon,
   SlideshowOutlined as SliderIcon,
+  LibraryMusic as ProgramIcon,
+  Memory as SysExIcon,
+  AvTimer as TransportIcon,
+  CallSplit as MacroIcon,
+  DataUsage as KnobIcon,
+  ControlCamera as XYPadIcon,
+  Apps as PadGridIcon,
+  Piano as KeyboardIcon,
+  QueueMusic as SequencerIcon,
+  ViewWeek as SelectorIcon,
+  FormatListBulleted as ListIcon,
+  GraphicEq as MeterIcon,
+  ShowChart as HistoryIcon,
 } from '@mui/icons-material';
 import { v4 as uuidv4 } from 'uuid';
 
 // Import components
 import useMIDI from '../hooks/useMIDI';
+import { oscHandler } from '../osc/oscHandler';
 import { ControlItem, ControlType, MidiControllerPreset } from '../types/index';
 import { useNotification } from '../context/NotificationContext';
-import { createNewControl, findAvailablePosition, checkOverlap } from '../utils/gridHelpers';
+import { createNewControl, findAvailablePosition, checkOverlap, getDefaultSize } from '../utils/gridHelpers';
 import MidiControllerGrid from './MidiControllerGrid';
 import PresetManager from './PresetManager';
 import ControlTooltipEditor from './ControlTooltipEditor';
 import { loadSettings, saveSettings, defaultSettings } from '../utils/settings';
 import { AppSettings } from '../types';
 import { useAppTheme } from '../context/ThemeContext';
-import TopBar from './TopBar';
+import TopBar, { OutputStatus } from './TopBar';
 import ThemeSelector from './ThemeSelector';
 import MultiControlEditor from './MultiControlEditor';
 
@@ -100,13 +114,19 @@ export default function MidiController() {
   const { 
     devices, 
     selectOutputDevice, 
+    selectAdditionalOutputDevices,
+    selectInputDevices,
     selectedOutput, 
     isConnected, 
     isInitialized, 
     error,
-    requestMIDIAccess 
+    requestMIDIAccess,
+    setTransport
   } = useMIDI();
   const [midiDeviceId, setMidiDeviceId] = useState<string | null>(null);
+  const [additionalOutputIds, setAdditionalOutputIds] = useState<string[]>([]);
+  // Undefined means "use the input named like the main output"
+  const [inputDeviceIds, setInputDeviceIds] = useState<string[] | undefined>(undefined);
   const connectionAttemptsRef = useRef(0);
   
   // UI state
@@ -148,6 +168,8 @@ export default function MidiController() {
           setControls(activePreset.controls);
           setGridColumns(activePreset.gridSize.columns);
           setGridRows(activePreset.gridSize.rows);
+          setAdditionalOutputIds(activePreset.additionalOutputIds ?? []);
+          setInputDeviceIds(activePreset.inputDeviceIds);
           
           // Connect to MIDI device if there was one saved
           if (activePreset.midiDeviceId) {
@@ -163,6 +185,8 @@ export default function MidiController() {
         setControls(loadedPresets[0].controls);
         setGridColumns(loadedPresets[0].gridSize.columns);
         setGridRows(loadedPresets[0].gridSize.rows);
+        setAdditionalOutputIds(loadedPresets[0].additionalOutputIds ?? []);
+        setInputDeviceIds(loadedPresets[0].inputDeviceIds);
         
         if (loadedPresets[0].midiDeviceId) {
           // Remove any type suffix from saved device ID
@@ -233,6 +257,30 @@ export default function MidiController() {
     return () => clearTimeout(timer);
   }, [midiDeviceId, isInitialized, selectOutputDevice, showNotification]);
 
+  // Reopen additional outputs whenever they or the device list change
+  useEffect(() => {
+    if (!isInitialized) return;
+    selectAdditionalOutputDevices(additionalOutputIds);
+  }, [additionalOutputIds, isInitialized, selectAdditionalOutputDevices]);
+
+  // Inputs to listen on: the preset's choice, or the input named like the main
+  // output for presets that never picked one
+  const getEffectiveInputIds = useCallback((): string[] => {
+    if (inputDeviceIds) return inputDeviceIds;
+
+    const outputDevice = devices.find(d => d.id === midiDeviceId && d.type === 'output');
+    if (!outputDevice) return [];
+
+    const inputDevice = devices.find(d => d.type === 'input' && d.name === outputDevice.name);
+    return inputDevice ? [inputDevice.id] : [];
+  }, [inputDeviceIds, midiDeviceId, devices]);
+
+  // Listen on the preset's inputs for every control at once
+  useEffect(() => {
+    if (!isInitialized) return;
+    selectInputDevices(getEffectiveInputIds());
+  }, [getEffectiveInputIds, isInitialized, selectInputDevices]);
+
   // Handle fullscreen toggle
   const toggleFullscreen = () => {
     if (!document.fullscreenElement) {
@@ -259,6 +307,20 @@ export default function MidiController() {
     setSettings(loadSettings());
   }, []);
 
+  // Switch MIDI backend when the setting changes
+  useEffect(() => {
+    setTransport(settings.midiTransport, { bridgeUrl: settings.midiBridgeUrl });
+  }, [settings.midiTransport, settings.midiBridgeUrl, setTransport]);
+
+  // Connect to the OSC bridge when one is configured
+  useEffect(() => {
+    if (settings.oscBridgeUrl) {
+      oscHandler.connect(settings.oscBridgeUrl);
+    } else {
+      oscHandler.disconnect();
+    }
+  }, [settings.oscBridgeUrl]);
+
   // Create a new preset
   const createNewPreset = () => {
     const newPreset: MidiControllerPreset = {
@@ -291,6 +353,8 @@ export default function MidiController() {
     setGridColumns(preset.gridSize.columns);
     setGridRows(preset.gridSize.rows);
     setSelectedControlId(null);
+    setAdditionalOutputIds(preset.additionalOutputIds ?? []);
+    setInputDeviceIds(preset.inputDeviceIds);
     
     if (preset.midiDeviceId) {
       setMidiDeviceId(preset.midiDeviceId);
@@ -349,6 +413,8 @@ export default function MidiController() {
       setGridColumns(newActivePreset.gridSize.columns);
       setGridRows(newActivePreset.gridSize.rows);
       setSelectedControlId(null);
+      setAdditionalOutputIds(newActivePreset.additionalOutputIds ?? []);
+      setInputDeviceIds(newActivePreset.inputDeviceIds);
       
       if (newActivePreset.midiDeviceId) {
         setMidiDeviceId(newActivePreset.midiDeviceId);
@@ -385,7 +451,9 @@ export default function MidiController() {
           ...p,
           controls,
           gridSize: { columns: gridColumns, rows: gridRows },
-          midiDeviceId
+          midiDeviceId,
+          additionalOutputIds,
+          inputDeviceIds
         } as MidiControllerPreset;
       }
       return p;
@@ -409,7 +477,7 @@ export default function MidiController() {
   // Add a new control
   const addControl = (type: ControlType) => {
     // Find a position for the new control
-    const defaultSize = type === 'slider' ? { w: 1, h: 3 } : { w: 2, h: 1 };
+    const defaultSize = getDefaultSize(type);
     const position = findAvailablePosition(controls, defaultSize, gridColumns, gridRows);
     
     const newControl = createNewControl(type, position);
@@ -556,6 +624,55 @@ export default function MidiController() {
     }
   };
   
+  // Handle input device selection
+  const handleInputDevicesChange = (event: SelectChangeEvent<string[]>) => {
+    const value = event.target.value;
+    const deviceIds = typeof value === 'string' ? value.split(',') : value;
+    setInputDeviceIds(deviceIds);
+
+    // Update the current preset with the selected inputs
+    if (activePresetId) {
+      setPresets(prevPresets => prevPresets.map(p => {
+        if (p.id === activePresetId) {
+          return { ...p, inputDeviceIds: deviceIds } as MidiControllerPreset;
+        }
+        return p;
+      }));
+    }
+  };
+
+  // Handle selection of extra outputs that controls can route to
+  const handleAdditionalOutputsChange = (event: SelectChangeEvent<string[]>) => {
+    const value = event.target.value;
+    const deviceIds = typeof value === 'string' ? value.split(',') : value;
+    setAdditionalOutputIds(deviceIds);
+
+    // Update the current preset with the selected outputs
+    if (activePresetId) {
+      setPresets(prevPresets => prevPresets.map(p => {
+        if (p.id === activePresetId) {
+          return { ...p, additionalOutputIds: deviceIds } as MidiControllerPreset;
+        }
+        return p;
+      }));
+    }
+  };
+
+  // Connection state of every output the preset uses, main output first
+  const outputStatuses: OutputStatus[] = [
+    midiDeviceId,
+    ...additionalOutputIds.filter(id => id !== midiDeviceId)
+  ]
+    .filter((id): id is string => !!id)
+    .map(id => {
+      const device = devices.find(d => d.id === id && d.type === 'output');
+      return {
+        id,
+        name: device?.name ?? 'Unknown device',
+        connected: device?.state === 'connected',
+      };
+    });
+
   // Get the active preset name
   const getActivePresetName = () => {
     if (!activePresetId) return 'No preset selected';
@@ -572,10 +689,23 @@ export default function MidiController() {
   // Speed dial actions for adding controls
   const speedDialActions = [
     { icon: <SliderIcon />, name: 'Slider', action: () => addControl('slider') },
+    { icon: <KnobIcon />, name: 'Knob', action: () => addControl('knob') },
+    { icon: <XYPadIcon />, name: 'XY Pad', action: () => addControl('xypad') },
+    { icon: <PadGridIcon />, name: 'Pad Grid', action: () => addControl('padgrid') },
+    { icon: <KeyboardIcon />, name: 'Keyboard', action: () => addControl('keyboard') },
+    { icon: <SequencerIcon />, name: 'Sequencer', action: () => addControl('sequencer') },
+    { icon: <SelectorIcon />, name: 'Selector', action: () => addControl('selector') },
+    { icon: <ListIcon />, name: 'List', action: () => addControl('list') },
+    { icon: <MeterIcon />, name: 'Meter', action: () => addControl('meter') },
+    { icon: <HistoryIcon />, name: 'History', action: () => addControl('history') },
     { icon: <ButtonIcon />, name: 'Button', action: () => addControl('button') },
     { icon: <ToggleOnIcon />, name: 'Toggle', action: () => addControl('toggle') },
     { icon: <TextFieldsIcon />, name: 'Text Box', action: () => addControl('textbox') },
     { icon: <LabelIcon />, name: 'Label', action: () => addControl('label') },
+    { icon: <ProgramIcon />, name: 'Program Change', action: () => addControl('program') },
+    { icon: <SysExIcon />, name: 'SysEx', action: () => addControl('sysex') },
+    { icon: <TransportIcon />, name: 'Transport', action: () => addControl('transport') },
+    { icon: <MacroIcon />, name: 'Macro', action: () => addControl('macro') },
   ];
 
   // Settings dialog - add refresh MIDI button
@@ -720,6 +850,7 @@ export default function MidiController() {
         toggleFullscreen={toggleFullscreen}
         showPresetManager={() => setShowPresetManager(true)}
         showSettings={() => setIsSettingsOpen(true)}
+        outputs={outputStatuses}
       />
       
       {/* Main Content */}
@@ -803,6 +934,8 @@ export default function MidiController() {
           <ControlTooltipEditor
             anchorEl={editorAnchorEl}
             control={getSelectedControl()!} // Non-null assertion since we check above
+            controls={controls}
+            outputDevices={outputStatuses}
             onClose={handleCloseEditor}
             updateControl={(updatedControl) => {
               handleUpdateControl(updatedControl.id, updatedControl);
@@ -845,6 +978,43 @@ export default function MidiController() {
         <DialogTitle>Settings</DialogTitle>
         <DialogContent>
           <Typography variant="h6" sx={{ mt: 2, mb: 1 }}>MIDI Device</Typography>
+
+          <FormControl fullWidth margin="normal">
+            <InputLabel>MIDI Backend</InputLabel>
+            <Select
+              value={settings.midiTransport}
+              onChange={(e) => handleSettingsChange({ midiTransport: e.target.value as AppSettings['midiTransport'] })}
+              label="MIDI Backend"
+            >
+              <MenuItem value="webmidi">Web MIDI (hardware devices)</MenuItem>
+              <MenuItem value="virtual">Virtual Loopback (no hardware)</MenuItem>
+              <MenuItem value="websocket">Remote Bridge (WebSocket)</MenuItem>
+            </Select>
+          </FormControl>
+
+          {settings.midiTransport === 'websocket' && (
+            <TextField
+              key={settings.midiBridgeUrl}
+              label="Bridge Address"
+              defaultValue={settings.midiBridgeUrl}
+              // Reconnect once editing is done rather than on every keystroke
+              onBlur={(e) => handleSettingsChange({ midiBridgeUrl: e.target.value.trim() })}
+              helperText="Run `node bridge/midi-bridge.js` on the computer with the MIDI devices"
+              fullWidth
+              margin="normal"
+            />
+          )}
+
+          <TextField
+            key={settings.oscBridgeUrl}
+            label="OSC Bridge Address"
+            placeholder="ws://localhost:8766"
+            defaultValue={settings.oscBridgeUrl}
+            onBlur={(e) => handleSettingsChange({ oscBridgeUrl: e.target.value.trim() })}
+            helperText="Leave empty to disable OSC. Run `node bridge/osc-bridge.js` next to the OSC software"
+            fullWidth
+            margin="normal"
+          />
           
           <Box display="flex" justifyContent="space-between" alignItems="center" mb={2}>
             <Box>
@@ -953,6 +1123,58 @@ export default function MidiController() {
             </FormControl>
           )}
 
+          {isInitialized && devices.some(device => device.type === 'output') && (
+            <FormControl fullWidth margin="normal">
+              <InputLabel>Additional Outputs</InputLabel>
+              <Select
+                multiple
+                value={additionalOutputIds}
+                onChange={handleAdditionalOutputsChange}
+                label="Additional Outputs"
+                renderValue={(ids) => ids
+                  .map(id => devices.find(d => d.id === id)?.name ?? id)
+                  .join(', ')}
+              >
+                {devices
+                  .filter(device => device.type === 'output' && device.id !== midiDeviceId)
+                  .map(device => (
+                    <MenuItem key={device.id} value={device.id}>
+                      {device.name} ({device.manufacturer || 'Unknown manufacturer'})
+                    </MenuItem>
+                  ))}
+              </Select>
+              <Typography variant="caption" color="text.secondary" sx={{ mt: 0.5 }}>
+                Controls can send to these outputs, or to all outputs at once, from the MIDI tab
+              </Typography>
+            </FormControl>
+          )}
+
+          {isInitialized && devices.some(device => device.type === 'input') && (
+            <FormControl fullWidth margin="normal">
+              <InputLabel>Input Devices</InputLabel>
+              <Select
+                multiple
+                value={getEffectiveInputIds()}
+                onChange={handleInputDevicesChange}
+                label="Input Devices"
+                renderValue={(ids) => ids
+                  .map(id => devices.find(d => d.id === id)?.name ?? id)
+                  .join(', ')}
+              >
+                {devices.filter(device => device.type === 'input').map(device => (
+                  <MenuItem key={device.id} value={device.id}>
+                    {device.name} ({device.manufacturer || 'Unknown manufacturer'})
+                  </MenuItem>
+                ))}
+              </Select>
+              <Typography variant="caption" color="text.secondary" sx={{ mt: 0.5 }}>
+                {inputDeviceIds
+                  ? 'Controls follow incoming messages from these inputs'
+                  : 'Using the input with the same name as the output device'}
+              </Typography>
+            </FormControl>
+          )}
+
           <Box sx={{ mt: 2, mb: 2, p: 2, bgcolor: 'rgba(0,0,0,0.05)', borderRadius: 1 }}>
             <Typography variant="body2" color="text.secondary" sx={{ mb: 1 }}>
               MIDI Troubleshooting Tips:
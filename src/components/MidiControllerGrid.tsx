@@ -1104,6 +1104,7 @@ useEffect(() => {
           onLongPress={(element) => handleControlLongPress(control.id, element)} // New prop
           onDragStart={(e) => handleDragStart(e, control.id)}
           onResizeStart={(e, handle) => handleResizeStart(e, control.id, handle)}
+          onUpdateControl={onUpdateControl}
           transitionSettings={transitionSettings}
           settings={settings}
         />
@@ -1,14 +1,21 @@
-import { AppBar, Toolbar, Typography, Button } from '@mui/material';
+import { AppBar, Toolbar, Typography, Button, Box, Chip } from '@mui/material';
 import { 
   Edit as EditIcon, 
   Settings as SettingsIcon, 
   Tune as TuneIcon, 
   PlayArrow as PlayArrowIcon,
   Fullscreen as FullscreenIcon,
-  FullscreenExit as FullscreenExitIcon
+  FullscreenExit as FullscreenExitIcon,
+  FiberManualRecord as StatusIcon
 } from '@mui/icons-material';
 import UpdateButton from './UpdateButton';
 
+export interface OutputStatus {
+  id: string;
+  name: string;
+  connected: boolean;
+}
+
 interface TopBarProps {
   presetName: string;
   isEditMode: boolean;
@@ -17,6 +24,7 @@ interface TopBarProps {
   toggleFullscreen: () => void;
   showPresetManager: () => void;
   showSettings: () => void;
+  outputs?: OutputStatus[];
 }
 
 export default function TopBar({
@@ -26,7 +34,8 @@ export default function TopBar({
   isFullscreen,
   toggleFullscreen,
   showPresetManager,
-  showSettings
+  showSettings,
+  outputs = []
 }: TopBarProps) {
   return (
     <AppBar position="static">
@@ -35,6 +44,22 @@ export default function TopBar({
         Cyan MIDI Controller - {presetName}
       </Typography>
 
+      {outputs.length > 0 && (
+        <Box sx={{ display: 'flex', gap: 0.5, mr: 1 }}>
+          {outputs.map(output => (
+            <Chip
+              key={output.id}
+              size="small"
+              variant="outlined"
+              label={output.name}
+              title={output.connected ? 'Connected' : 'Disconnected'}
+              icon={<StatusIcon color={output.connected ? 'success' : 'error'} />}
+              sx={{ color: 'inherit', borderColor: 'rgba(255,255,255,0.3)' }}
+            />
+          ))}
+        </Box>
+      )}
+
       <UpdateButton />
 
       <Button 
@@ -0,0 +1,41 @@
+import { useCallback } from 'react';
+import { midiHandler } from '../midi/midiHandler';
+import { oscHandler } from '../osc/oscHandler';
+import { midiSync } from '../utils/midiSync';
+import { getControlRange } from '../utils/continuousControlHelpers';
+import { ControlItem } from '../types';
+
+// Sending for sliders and knobs: the configured MIDI message, OSC, midiSync
+// for plain CC, and quantizing to the clock
+export default function useControlSender(control: ControlItem, selectedMidiOutput?: string | null) {
+  const { id, config } = control;
+  const { min, max, isPlainCC } = getControlRange(config.midi);
+
+  // Send the value using the configured message type
+  const sendValueNow = useCallback((value: number) => {
+    // OSC gets the unrounded value so float addresses stay smooth
+    if (config.osc) {
+      oscHandler.sendControlValue(config.osc, value, min, max);
+    }
+
+    if (!config.midi || !selectedMidiOutput) return;
+
+    // Ensure MIDI values are integers
+    const midiValue = Math.round(value);
+    midiHandler.sendControlValue(config.midi, midiValue);
+    if (isPlainCC) {
+      midiSync.notify(config.midi.channel ?? 1, config.midi.cc ?? 0, midiValue);
+    }
+  }, [config.osc, config.midi, selectedMidiOutput, min, max, isPlainCC]);
+
+  // With quantize on, only the latest value is sent at the next clock division
+  const sendValue = useCallback((value: number) => {
+    if (config.quantize) {
+      midiHandler.quantizeToClock(id, config.quantize, () => sendValueNow(value));
+    } else {
+      sendValueNow(value);
+    }
+  }, [id, config.quantize, sendValueNow]);
+
+  return { sendValue, sendValueNow };
+}
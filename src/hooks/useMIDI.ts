@@ -1,11 +1,16 @@
 import { useState, useEffect, useCallback } from 'react';
 import { midiHandler, MIDIDevice, MIDIConnectionState } from '../midi/midiHandler';
+import { MidiConfig } from '../types';
+import { createTransport, MIDITransportType, TransportOptions, WebSocketMIDITransport } from '../midi/transports';
+import { ClockDivision } from '../midi/midiClock';
 
 export default function useMIDI() {
   const [isInitialized, setIsInitialized] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [devices, setDevices] = useState<MIDIDevice[]>([]);
   const [selectedOutput, setSelectedOutput] = useState<MIDIDevice | null>(null);
+  const [additionalOutputs, setAdditionalOutputs] = useState<MIDIDevice[]>([]);
+  const [selectedInputs, setSelectedInputs] = useState<MIDIDevice[]>([]);
   const [isConnected, setIsConnected] = useState(false);
 
   // Initialize MIDI system
@@ -75,32 +80,75 @@ export default function useMIDI() {
     }
   }, [devices]);
 
-  // Select input device
-  const selectInputDevice = useCallback((deviceId: string) => {
-    // Debug logging
-    console.log('Attempting to select input device:', deviceId);
-    
-    // Find the input device with matching ID
-    const device = devices.find(d => d.id === deviceId && d.type === 'input');
+  // Select extra output devices that controls can route to
+  const selectAdditionalOutputDevices = useCallback((deviceIds: string[]) => {
+    const outputs = devices.filter(d => d.type === 'output' && deviceIds.includes(d.id));
+    const success = midiHandler.setAdditionalOutputs(outputs.map(d => d.id));
+    setAdditionalOutputs(outputs);
 
-    if (!device) {
-      console.error(`Could not find input device with ID: ${deviceId}`);
+    if (outputs.length < deviceIds.length) {
+      console.warn(`${deviceIds.length - outputs.length} additional output device(s) not found`);
       return false;
     }
+    return success;
+  }, [devices]);
 
-    const success = midiHandler.selectInput(device.id);
-    if (!success) {
-      console.error(`Failed to select input device ${device.name}`);
+  // Select the input devices every control listens on
+  const selectInputDevices = useCallback((deviceIds: string[]) => {
+    // Debug logging
+    console.log('Attempting to select input devices:', deviceIds);
+    
+    const inputs = devices.filter(d => d.type === 'input' && deviceIds.includes(d.id));
+    const success = midiHandler.setInputs(inputs.map(d => d.id));
+    setSelectedInputs(inputs);
+
+    if (inputs.length < deviceIds.length) {
+      console.warn(`${deviceIds.length - inputs.length} input device(s) not found`);
       return false;
     }
 
-    console.log('Successfully selected input device:', device.name);
-    return true;
+    console.log('Successfully selected input devices:', inputs.map(d => d.name));
+    return success;
   }, [devices]);
 
   // Send CC message
-  const sendCC = useCallback((channel: number, cc: number, value: number): boolean => {
-    return midiHandler.sendCC(channel, cc, value);
+  const sendCC = useCallback((channel: number, cc: number, value: number, port?: string): boolean => {
+    return midiHandler.sendCC(channel, cc, value, port);
+  }, []);
+
+  // Send 14-bit CC message
+  const sendCC14 = useCallback((channel: number, cc: number, value: number, port?: string): boolean => {
+    return midiHandler.sendCC14(channel, cc, value, port);
+  }, []);
+
+  // Send Pitch Bend message
+  const sendPitchBend = useCallback((channel: number, value: number, port?: string): boolean => {
+    return midiHandler.sendPitchBend(channel, value, port);
+  }, []);
+
+  // Send Bank Select and Program Change
+  const sendProgramChange = useCallback((channel: number, program: number, bankMsb?: number, bankLsb?: number, port?: string): boolean => {
+    return midiHandler.sendProgramChange(channel, program, bankMsb, bankLsb, port);
+  }, []);
+
+  // Send a System Exclusive message (including F0/F7 framing)
+  const sendSysEx = useCallback((data: number[], port?: string): boolean => {
+    return midiHandler.sendSysEx(data, port);
+  }, []);
+
+  // Send Note On
+  const sendNoteOn = useCallback((channel: number, note: number, velocity: number, port?: string): boolean => {
+    return midiHandler.sendNoteOn(channel, note, velocity, port);
+  }, []);
+
+  // Send Note Off
+  const sendNoteOff = useCallback((channel: number, note: number, port?: string): boolean => {
+    return midiHandler.sendNoteOff(channel, note, port);
+  }, []);
+
+  // Send a value using the message type described by a control's MIDI config
+  const sendControlValue = useCallback((midi: MidiConfig, value: number): boolean => {
+    return midiHandler.sendControlValue(midi, value);
   }, []);
 
   // Subscribe to CC changes
@@ -108,6 +156,73 @@ export default function useMIDI() {
     return midiHandler.subscribeToCC(channel, cc, callback);
   }, []);
 
+  // Subscribe to CC messages sent from this app
+  const subscribeToSentCC = useCallback((channel: number, cc: number, callback: (value: number) => void) => {
+    return midiHandler.subscribeToSentCC(channel, cc, callback);
+  }, []);
+
+  // Subscribe to 14-bit CC changes
+  const subscribeToCC14 = useCallback((channel: number, cc: number, callback: (value: number) => void) => {
+    return midiHandler.subscribeToCC14(channel, cc, callback);
+  }, []);
+
+  // Subscribe to the message type described by a control's MIDI config
+  const subscribeToControlValue = useCallback((midi: MidiConfig, callback: (value: number) => void) => {
+    return midiHandler.subscribeToControlValue(midi, callback);
+  }, []);
+
+  // Subscribe to Note On/Off messages
+  const subscribeToNote = useCallback((channel: number, note: number, callback: (velocity: number, isNoteOn: boolean) => void) => {
+    return midiHandler.subscribeToNote(channel, note, callback);
+  }, []);
+
+  // Subscribe to Pitch Bend changes
+  const subscribeToPitchBend = useCallback((channel: number, callback: (value: number) => void) => {
+    return midiHandler.subscribeToPitchBend(channel, callback);
+  }, []);
+
+  // Subscribe to Program Change messages
+  const subscribeToProgramChange = useCallback((channel: number, callback: (program: number) => void) => {
+    return midiHandler.subscribeToProgramChange(channel, callback);
+  }, []);
+
+  // Subscribe to Channel Pressure changes
+  const subscribeToChannelPressure = useCallback((channel: number, callback: (pressure: number) => void) => {
+    return midiHandler.subscribeToChannelPressure(channel, callback);
+  }, []);
+
+  // Subscribe to Poly Aftertouch changes
+  const subscribeToPolyAftertouch = useCallback((channel: number, note: number, callback: (pressure: number) => void) => {
+    return midiHandler.subscribeToPolyAftertouch(channel, note, callback);
+  }, []);
+
+  // Subscribe to SysEx messages, optionally from a single manufacturer
+  const subscribeToSysEx = useCallback((callback: (data: number[]) => void, manufacturerId?: number[]) => {
+    return midiHandler.subscribeToSysEx(callback, manufacturerId);
+  }, []);
+
+  const quantizeToClock = useCallback((key: string, division: ClockDivision, callback: () => void) => {
+    midiHandler.quantizeToClock(key, division, callback);
+  }, []);
+
+  // Switch to another MIDI backend, e.g. the virtual loopback device
+  const setTransport = useCallback(async (type: MIDITransportType, options: TransportOptions = {}) => {
+    const current = midiHandler.getTransport();
+    const isSameBridge = !(current instanceof WebSocketMIDITransport) || current.url === options.bridgeUrl;
+    if (current.type === type && isSameBridge) return true;
+
+    const success = await midiHandler.setTransport(createTransport(type, options));
+    const deviceList = midiHandler.listDevices();
+    setDevices([...deviceList.inputs, ...deviceList.outputs]);
+    setSelectedOutput(null);
+    setAdditionalOutputs([]);
+    setSelectedInputs([]);
+    setIsConnected(false);
+    setIsInitialized(success);
+    setError(success ? null : 'Failed to initialize MIDI system');
+    return success;
+  }, []);
+
   // Request MIDI access (for refreshing connections)
   const requestMIDIAccess = useCallback(async () => {
     try {
@@ -130,11 +245,32 @@ export default function useMIDI() {
     error,
     devices,
     selectedOutput,
+    additionalOutputs,
+    selectedInputs,
     isConnected,
     selectOutputDevice,
-    selectInputDevice,
+    selectAdditionalOutputDevices,
+    selectInputDevices,
     sendCC,
+    sendCC14,
+    sendPitchBend,
+    sendControlValue,
+    sendProgramChange,
+    sendSysEx,
+    sendNoteOn,
+    sendNoteOff,
     subscribeToCC,
+    subscribeToSentCC,
+    subscribeToCC14,
+    subscribeToControlValue,
+    subscribeToNote,
+    subscribeToPitchBend,
+    subscribeToProgramChange,
+    subscribeToChannelPressure,
+    subscribeToPolyAftertouch,
+    subscribeToSysEx,
+    quantizeToClock,
+    setTransport,
     requestMIDIAccess
   };
 }
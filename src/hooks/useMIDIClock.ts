@@ -0,0 +1,42 @@
+import { useState, useEffect, useCallback } from 'react';
+import { midiHandler } from '../midi/midiHandler';
+import { ClockSource, ClockState } from '../midi/midiClock';
+
+// Clock state and transport actions for components that show or drive the clock
+export default function useMIDIClock() {
+  const [clockState, setClockState] = useState<ClockState>(() => midiHandler.getClockState());
+
+  useEffect(() => {
+    // Pick up changes made between the first render and subscribing
+    setClockState(midiHandler.getClockState());
+    return midiHandler.subscribeToClock(setClockState);
+  }, []);
+
+  const start = useCallback(() => midiHandler.startClock(), []);
+  const stop = useCallback(() => midiHandler.stopClock(), []);
+  const continueClock = useCallback(() => midiHandler.continueClock(), []);
+  const tapTempo = useCallback(() => midiHandler.tapTempo(), []);
+
+  const setBPM = useCallback((bpm: number) => {
+    midiHandler.setClockBPM(bpm);
+  }, []);
+
+  const setSource = useCallback((source: ClockSource) => {
+    midiHandler.setClockSource(source);
+  }, []);
+
+  const subscribeToTick = useCallback((callback: (tick: number) => void) => {
+    return midiHandler.subscribeToClockTick(callback);
+  }, []);
+
+  return {
+    clockState,
+    start,
+    stop,
+    continueClock,
+    tapTempo,
+    setBPM,
+    setSource,
+    subscribeToTick
+  };
+}
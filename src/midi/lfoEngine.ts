@@ -0,0 +1,132 @@
+import { LFOConfig, LFOShape, MidiConfig } from '../types';
+import { midiHandler } from './midiHandler';
+import { CLOCK_DIVISIONS, PULSES_PER_QUARTER } from './midiClock';
+import { countMessagesPerSend } from '../utils/midiHelpers';
+
+// All LFOs together send at most this many messages per second, well under
+// what a DIN MIDI cable carries, so other controls still get through
+const MAX_MESSAGES_PER_SECOND = 300;
+// Fastest update rate for a single LFO (also the animation frame rate)
+const MIN_SEND_INTERVAL_MS = 20;
+
+export const DEFAULT_LFO: LFOConfig = {
+  enabled: false,
+  shape: 'sine',
+  rate: 1,
+  depth: 0.5,
+  offset: 0.5,
+};
+
+interface RunningLFO {
+  getConfig: () => LFOConfig;
+  getMidi: () => MidiConfig | undefined;  // Target of the sends, for the message budget
+  onUpdate: (position: number) => void;  // Every frame, for the display
+  onSend: (position: number) => void;    // Throttled, for MIDI output
+  phase: number;
+  heldValue: number;  // Current random sample-and-hold level (-1 to 1)
+  lastSent: number;
+}
+
+// Waveform level at a phase (0-1), from -1 to 1
+const waveform = (shape: LFOShape, phase: number, heldValue: number): number => {
+  switch (shape) {
+    case 'triangle':
+      return 1 - 4 * Math.abs(phase - 0.5);
+    case 'saw':
+      return 2 * phase - 1;
+    case 'square':
+      return phase < 0.5 ? 1 : -1;
+    case 'random':
+      return heldValue;
+    default:
+      return Math.sin(2 * Math.PI * phase);
+  }
+};
+
+// Cycles per second, following the clock tempo when synced
+const getFrequency = (config: LFOConfig): number => {
+  if (!config.sync) return Math.max(0, config.rate);
+
+  const beatsPerCycle = CLOCK_DIVISIONS[config.sync] / PULSES_PER_QUARTER;
+  return midiHandler.getClockState().bpm / 60 / beatsPerCycle;
+};
+
+// Runs every active LFO from one shared timer and spreads the message budget
+// between them
+class LFOEngine {
+  private lfos: Map<string, RunningLFO> = new Map();
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private lastFrame = 0;
+
+  /**
+   * Start an LFO. The config is read every frame so edits apply live.
+   * Positions are fractions of the slider range (0-1).
+   * The MIDI config is read every frame too, to count its messages against the budget.
+   * @returns Function that stops the LFO
+   */
+  start(
+    id: string,
+    getConfig: () => LFOConfig,
+    getMidi: () => MidiConfig | undefined,
+    onUpdate: (position: number) => void,
+    onSend: (position: number) => void
+  ): () => void {
+    const lfo: RunningLFO = { getConfig, getMidi, onUpdate, onSend, phase: 0, heldValue: Math.random() * 2 - 1, lastSent: 0 };
+    this.lfos.set(id, lfo);
+
+    if (!this.timer) {
+      this.lastFrame = performance.now();
+      this.timer = setInterval(this.frame, MIN_SEND_INTERVAL_MS);
+    }
+
+    return () => {
+      if (this.lfos.get(id) !== lfo) return;
+
+      this.lfos.delete(id);
+      if (this.lfos.size === 0 && this.timer) {
+        clearInterval(this.timer);
+        this.timer = null;
+      }
+    };
+  }
+
+  private frame = () => {
+    const now = performance.now();
+    const elapsed = (now - this.lastFrame) / 1000;
+    this.lastFrame = now;
+
+    // Every LFO sends at the same rate, slow enough that all their messages
+    // together fit the budget (NRPN/RPN and 14-bit sends are several each)
+    let messagesPerRound = 0;
+    this.lfos.forEach(lfo => {
+      messagesPerRound += countMessagesPerSend(lfo.getMidi());
+    });
+    const sendInterval = Math.max(MIN_SEND_INTERVAL_MS, (1000 * messagesPerRound) / MAX_MESSAGES_PER_SECOND);
+
+    this.lfos.forEach(lfo => {
+      const config = lfo.getConfig();
+      const phase = lfo.phase + elapsed * getFrequency(config);
+      // Pick a new random level each cycle
+      if (phase >= 1) {
+        lfo.heldValue = Math.random() * 2 - 1;
+      }
+      lfo.phase = phase % 1;
+
+      const level = waveform(config.shape, lfo.phase, lfo.heldValue);
+      const position = Math.max(0, Math.min(1, config.offset + (level * config.depth) / 2));
+
+      try {
+        lfo.onUpdate(position);
+        if (now - lfo.lastSent >= sendInterval) {
+          lfo.lastSent = now;
+          lfo.onSend(position);
+        }
+      } catch (error) {
+        console.error('Error in LFO callback:', error);
+      }
+    });
+  };
+}
+
+// Create singleton instance
+export const lfoEngine = new LFOEngine();
@@ -0,0 +1,277 @@
+// MIDI Clock: 24 pulses per quarter note plus Start/Stop/Continue, either
+// generated at a set tempo or followed from an incoming clock
+
+export const CLOCK_TICK = 0xF8;
+export const CLOCK_START = 0xFA;
+export const CLOCK_CONTINUE = 0xFB;
+export const CLOCK_STOP = 0xFC;
+
+export const PULSES_PER_QUARTER = 24;
+export const MIN_BPM = 20;
+export const MAX_BPM = 300;
+export const DEFAULT_BPM = 120;
+
+// Note lengths that sends can be quantized to, in clock pulses
+export const CLOCK_DIVISIONS = {
+  '1/1': 96,
+  '1/2': 48,
+  '1/4': 24,
+  '1/4T': 16,
+  '1/8': 12,
+  '1/8T': 8,
+  '1/16': 6,
+  '1/16T': 4,
+} as const;
+
+export type ClockDivision = keyof typeof CLOCK_DIVISIONS;
+export type ClockSource = 'internal' | 'external';
+
+export interface ClockState {
+  source: ClockSource;
+  running: boolean;
+  bpm: number;
+  tick: number;  // Pulses since Start
+}
+
+// Incoming pulses averaged to measure the tempo (one beat)
+const BPM_AVERAGE_PULSES = PULSES_PER_QUARTER;
+// A gap this long between incoming pulses restarts the tempo measurement
+const PULSE_TIMEOUT_MS = 1000;
+// Taps further apart than this start a new tap tempo measurement
+const TAP_TIMEOUT_MS = 2000;
+const MAX_TAPS = 4;
+
+const clampBPM = (bpm: number) => Math.max(MIN_BPM, Math.min(MAX_BPM, bpm));
+
+export class MIDIClock {
+  private source: ClockSource = 'internal';
+  private running = false;
+  private bpm = DEFAULT_BPM;
+  private tick = 0;
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private nextTickTime = 0;
+  private pulseTimes: number[] = [];
+  private tapTimes: number[] = [];
+  private stateListeners: Set<(state: ClockState) => void> = new Set();
+  private tickListeners: Set<(tick: number) => void> = new Set();
+  private quantized: Map<string, { division: ClockDivision; callback: () => void }> = new Map();
+
+  // Sends realtime status bytes to the outputs
+  constructor(private readonly send: (status: number) => void) {}
+
+  getState(): ClockState {
+    return { source: this.source, running: this.running, bpm: this.bpm, tick: this.tick };
+  }
+
+  setSource(source: ClockSource) {
+    if (source === this.source) return;
+
+    this.stopTimer();
+    this.running = false;
+    this.source = source;
+    this.pulseTimes = [];
+    this.flushQuantized();
+    this.notifyState();
+  }
+
+  setBPM(bpm: number) {
+    if (this.source !== 'internal') return;
+
+    this.bpm = clampBPM(Math.round(bpm * 10) / 10);
+    this.notifyState();
+  }
+
+  // Start from the top (internal clock only; an external clock is followed)
+  start() {
+    if (this.source !== 'internal') return;
+
+    this.send(CLOCK_START);
+    this.begin(0);
+  }
+
+  continue() {
+    if (this.source !== 'internal' || this.running) return;
+
+    this.send(CLOCK_CONTINUE);
+    this.begin(this.tick);
+  }
+
+  stop() {
+    if (this.source !== 'internal' || !this.running) return;
+
+    this.send(CLOCK_STOP);
+    this.stopTimer();
+    this.running = false;
+    this.flushQuantized();
+    this.notifyState();
+  }
+
+  // Tap tempo: the average interval of recent taps sets the BPM
+  tap() {
+    const now = performance.now();
+    const lastTap = this.tapTimes[this.tapTimes.length - 1];
+    if (lastTap !== undefined && now - lastTap > TAP_TIMEOUT_MS) {
+      this.tapTimes = [];
+    }
+
+    this.tapTimes.push(now);
+    if (this.tapTimes.length > MAX_TAPS) {
+      this.tapTimes.shift();
+    }
+
+    if (this.tapTimes.length >= 2) {
+      const interval = (now - this.tapTimes[0]) / (this.tapTimes.length - 1);
+      this.setBPM(60000 / interval);
+    }
+  }
+
+  // Handle an incoming realtime message while following an external clock
+  handleRealtime(status: number) {
+    if (this.source !== 'external') return;
+
+    switch (status) {
+      case CLOCK_TICK:
+        this.measurePulse(performance.now());
+        if (this.running) {
+          this.advance();
+        }
+        break;
+      case CLOCK_START:
+        this.tick = 0;
+        this.running = true;
+        this.notifyState();
+        break;
+      case CLOCK_CONTINUE:
+        this.running = true;
+        this.notifyState();
+        break;
+      case CLOCK_STOP:
+        this.running = false;
+        this.flushQuantized();
+        this.notifyState();
+        break;
+    }
+  }
+
+  /**
+   * Run a callback on the next boundary of a note division. Calls with the
+   * same key replace each other, so only the latest value of a control is
+   * sent. Runs immediately when the clock is stopped.
+   */
+  quantize(key: string, division: ClockDivision, callback: () => void) {
+    if (!this.running) {
+      callback();
+      return;
+    }
+
+    // Re-insert so callbacks due on the same pulse run in the order they were made
+    this.quantized.delete(key);
+    this.quantized.set(key, { division, callback });
+  }
+
+  subscribe(callback: (state: ClockState) => void): () => void {
+    this.stateListeners.add(callback);
+    return () => {
+      this.stateListeners.delete(callback);
+    };
+  }
+
+  subscribeToTick(callback: (tick: number) => void): () => void {
+    this.tickListeners.add(callback);
+    return () => {
+      this.tickListeners.delete(callback);
+    };
+  }
+
+  dispose() {
+    this.stopTimer();
+    this.running = false;
+    this.quantized.clear();
+  }
+
+  private begin(tick: number) {
+    this.stopTimer();
+    this.tick = tick;
+    this.running = true;
+    this.nextTickTime = performance.now();
+    this.notifyState();
+    this.schedule();
+  }
+
+  // Send every pulse that is due, then wait for the next. Pulse times are
+  // derived from the tempo rather than the timer so jitter doesn't add up.
+  private schedule = () => {
+    const now = performance.now();
+    // Skip pulses missed while the page was throttled instead of bursting them
+    if (now - this.nextTickTime > 60000 / this.bpm) {
+      this.nextTickTime = now;
+    }
+    while (this.nextTickTime <= now) {
+      this.send(CLOCK_TICK);
+      this.advance();
+      this.nextTickTime += 60000 / (this.bpm * PULSES_PER_QUARTER);
+    }
+    this.timer = setTimeout(this.schedule, Math.max(0, this.nextTickTime - performance.now()));
+  };
+
+  private stopTimer() {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+
+  private advance() {
+    const tick = this.tick;
+
+    this.quantized.forEach(({ division, callback }, key) => {
+      if (tick % CLOCK_DIVISIONS[division] === 0) {
+        this.quantized.delete(key);
+        this.runCallback(callback);
+      }
+    });
+
+    this.tickListeners.forEach(callback => this.runCallback(() => callback(tick)));
+    this.tick = tick + 1;
+  }
+
+  private measurePulse(time: number) {
+    const lastPulse = this.pulseTimes[this.pulseTimes.length - 1];
+    if (lastPulse !== undefined && time - lastPulse > PULSE_TIMEOUT_MS) {
+      this.pulseTimes = [];
+    }
+
+    this.pulseTimes.push(time);
+    if (this.pulseTimes.length > BPM_AVERAGE_PULSES + 1) {
+      this.pulseTimes.shift();
+    }
+    if (this.pulseTimes.length < BPM_AVERAGE_PULSES + 1) return;
+
+    const interval = (time - this.pulseTimes[0]) / BPM_AVERAGE_PULSES;
+    const bpm = Math.round(clampBPM(60000 / (interval * PULSES_PER_QUARTER)) * 10) / 10;
+    if (bpm !== this.bpm) {
+      this.bpm = bpm;
+      this.notifyState();
+    }
+  }
+
+  // Send anything still waiting when the clock stops
+  private flushQuantized() {
+    const pending = Array.from(this.quantized.values());
+    this.quantized.clear();
+    pending.forEach(({ callback }) => this.runCallback(callback));
+  }
+
+  private notifyState() {
+    const state = this.getState();
+    this.stateListeners.forEach(callback => this.runCallback(() => callback(state)));
+  }
+
+  private runCallback(callback: () => void) {
+    try {
+      callback();
+    } catch (error) {
+      console.error('Error in MIDI clock callback:', error);
+    }
+  }
+}
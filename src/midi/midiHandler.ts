@@ -1,55 +1,221 @@
+import { MidiConfig } from '../types';
+import { MIDITransport, MIDITransportInput, MIDITransportOutput } from './transports/types';
+import { WebMIDITransport } from './transports/webMidiTransport';
+import { ClockDivision, ClockSource, ClockState, MIDIClock } from './midiClock';
+
 export class MIDIHandler {
-  private midiAccess: MIDIAccess | null = null;
-  private selectedInput: MIDIInput | null = null;
-  private selectedOutput: MIDIOutput | null = null;
+  private transport: MIDITransport = new WebMIDITransport();
+  private latestInit: Promise<boolean> | null = null;  // Newest initialize() call, for callers a transport swap overtakes
+  private selectedInputs: Map<string, MIDITransportInput> = new Map();
+  private selectedOutput: MIDITransportOutput | null = null;
+  private additionalOutputs: Map<string, MIDITransportOutput> = new Map();
   private onStateChange: ((state: MIDIConnectionState) => void) | null = null;
-  private ccListeners: Map<string, (value: number) => void> = new Map();
+  private ccListeners: ListenerRegistry<string, (value: number) => void> = new Map();
+  private noteListeners: ListenerRegistry<string, (velocity: number, isNoteOn: boolean) => void> = new Map();
+  private polyAftertouchListeners: ListenerRegistry<string, (pressure: number) => void> = new Map();
+  private pitchBendListeners: ListenerRegistry<number, (value: number) => void> = new Map();
+  private programChangeListeners: ListenerRegistry<number, (program: number) => void> = new Map();
+  private channelPressureListeners: ListenerRegistry<number, (pressure: number) => void> = new Map();
+  private cc14Listeners: ListenerRegistry<string, (value: number) => void> = new Map();
+  private cc14MsbValues: Map<string, number> = new Map();
+  private nrpnListeners: ListenerRegistry<string, (value: number) => void> = new Map();
+  private rpnListeners: ListenerRegistry<string, (value: number) => void> = new Map();
+  private parameterStates: Map<number, ParameterState> = new Map();
+  private sysExListeners: ListenerRegistry<string, (data: number[]) => void> = new Map();
+  private sentCCListeners: ListenerRegistry<string, (value: number) => void> = new Map();
+  private clock = new MIDIClock(status => this.sendRealtime(status));
 
   // Create a key for CC listeners
   private static getCCKey(channel: number, cc: number): string {
     return `${channel}-${cc}`;
   }
 
-  // Subscribe to CC changes
-  subscribeToCC(channel: number, cc: number, callback: (value: number) => void): () => void {
-    const key = MIDIHandler.getCCKey(channel, cc);
-    this.ccListeners.set(key, callback);
+  // Create a key for note and poly aftertouch listeners
+  private static getNoteKey(channel: number, note: number): string {
+    return `${channel}-${note}`;
+  }
+
+  // Create a key for NRPN/RPN listeners
+  private static getParameterKey(channel: number, parameter: number): string {
+    return `${channel}-${parameter}`;
+  }
+
+  // Create a key for SysEx listeners from a 1- or 3-byte manufacturer ID
+  private static getManufacturerKey(manufacturerId: number[]): string {
+    return manufacturerId.map(byte => byte.toString(16).padStart(2, '0')).join(' ');
+  }
+
+  // Add a listener to a registry and return its unsubscribe function
+  private static addListener<K, L>(registry: ListenerRegistry<K, L>, key: K, callback: L): () => void {
+    if (!registry.has(key)) {
+      registry.set(key, new Set());
+    }
+
+    registry.get(key)!.add(callback);
 
     // Return unsubscribe function
     return () => {
-      this.ccListeners.delete(key);
+      const listeners = registry.get(key);
+      if (listeners) {
+        listeners.delete(callback);
+        if (listeners.size === 0) {
+          registry.delete(key);
+        }
+      }
     };
   }
 
-  // Initialize MIDI system
-  async initialize(): Promise<boolean> {
-    try {
-      this.midiAccess = await navigator.requestMIDIAccess({ sysex: true });
-      this.midiAccess.onstatechange = this.handleStateChange.bind(this);
-      return true;
-    } catch (error) {
-      console.error('Failed to initialize MIDI system:', error);
-      return false;
+  // Call every listener registered under a key, isolating listener errors
+  private static notifyListeners<K, A extends unknown[]>(
+    registry: ListenerRegistry<K, (...args: A) => void>,
+    key: K,
+    ...args: A
+  ): void {
+    const listeners = registry.get(key);
+    if (!listeners) return;
+
+    listeners.forEach(callback => {
+      try {
+        callback(...args);
+      } catch (error) {
+        console.error('Error in MIDI listener callback:', error);
+      }
+    });
+  }
+
+  // Subscribe to CC changes
+  subscribeToCC(channel: number, cc: number, callback: (value: number) => void): () => void {
+    const key = MIDIHandler.getCCKey(channel, cc);
+    return MIDIHandler.addListener(this.ccListeners, key, callback);
+  }
+
+  // Subscribe to CC messages this app sends, whichever control or LFO sends them.
+  // 14-bit CC and NRPN/RPN report each CC they put on the wire (MSB, LSB, data entry).
+  subscribeToSentCC(channel: number, cc: number, callback: (value: number) => void): () => void {
+    const key = MIDIHandler.getCCKey(channel, cc);
+    return MIDIHandler.addListener(this.sentCCListeners, key, callback);
+  }
+
+  // Subscribe to 14-bit CC changes (MSB on CC n, LSB on CC n+32, value 0-16383)
+  subscribeToCC14(channel: number, cc: number, callback: (value: number) => void): () => void {
+    const key = MIDIHandler.getCCKey(channel, cc);
+    return MIDIHandler.addListener(this.cc14Listeners, key, callback);
+  }
+
+  // Subscribe to NRPN changes (14-bit value, data entry MSB << 7 | LSB)
+  subscribeToNRPN(channel: number, parameter: number, callback: (value: number) => void): () => void {
+    const key = MIDIHandler.getParameterKey(channel, parameter);
+    return MIDIHandler.addListener(this.nrpnListeners, key, callback);
+  }
+
+  // Subscribe to RPN changes (14-bit value, data entry MSB << 7 | LSB)
+  subscribeToRPN(channel: number, parameter: number, callback: (value: number) => void): () => void {
+    const key = MIDIHandler.getParameterKey(channel, parameter);
+    return MIDIHandler.addListener(this.rpnListeners, key, callback);
+  }
+
+  // Subscribe to whatever message a control's MIDI config describes. Values
+  // arrive in the control's own range (7-bit unless pitch bend or 14-bit).
+  subscribeToControlValue(midi: MidiConfig, callback: (value: number) => void): () => void {
+    const channel = Number(midi.channel ?? 1);
+    const cc = Number(midi.cc ?? 0);
+    const parameter = Number(midi.parameter ?? 0);
+    const fromParameterValue = (value: number) => callback(midi.highResolution ? value : value >> 7);
+
+    switch (midi.messageType ?? 'cc') {
+      case 'pitchbend':
+        return this.subscribeToPitchBend(channel, callback);
+      case 'note':
+        // Note Off arrives as velocity 0
+        return this.subscribeToNote(channel, Number(midi.note ?? DEFAULT_NOTE), (velocity) => callback(velocity));
+      case 'nrpn':
+        return this.subscribeToNRPN(channel, parameter, fromParameterValue);
+      case 'rpn':
+        return this.subscribeToRPN(channel, parameter, fromParameterValue);
+      default:
+        return midi.highResolution
+          ? this.subscribeToCC14(channel, cc, callback)
+          : this.subscribeToCC(channel, cc, callback);
     }
   }
 
-  // Handle MIDI state changes
-  private handleStateChange(event: MIDIConnectionEvent) {
-    if (!event.port) return;
-    
-    const port = event.port;
-    const state: MIDIConnectionState = {
-      port: {
-        id: port.id,
-        manufacturer: port.manufacturer ?? '',
-        name: port.name ?? '',
-        state: port.state,
-        type: port.type,
-      },
-      timestamp: event.timeStamp
-    };
+  // Subscribe to Note On/Off messages (velocity is 0 for Note Off)
+  subscribeToNote(channel: number, note: number, callback: (velocity: number, isNoteOn: boolean) => void): () => void {
+    const key = MIDIHandler.getNoteKey(channel, note);
+    return MIDIHandler.addListener(this.noteListeners, key, callback);
+  }
+
+  // Subscribe to Pitch Bend changes (14-bit, 0-16383, centre 8192)
+  subscribeToPitchBend(channel: number, callback: (value: number) => void): () => void {
+    return MIDIHandler.addListener(this.pitchBendListeners, channel, callback);
+  }
+
+  // Subscribe to Program Change messages
+  subscribeToProgramChange(channel: number, callback: (program: number) => void): () => void {
+    return MIDIHandler.addListener(this.programChangeListeners, channel, callback);
+  }
 
-    console.log(`MIDI port ${port.type} "${port.name ?? 'Unknown'}" state changed to ${port.state}`);
+  // Subscribe to Channel Pressure (mono aftertouch) changes
+  subscribeToChannelPressure(channel: number, callback: (pressure: number) => void): () => void {
+    return MIDIHandler.addListener(this.channelPressureListeners, channel, callback);
+  }
+
+  // Subscribe to Polyphonic Key Pressure (poly aftertouch) changes for a single note
+  subscribeToPolyAftertouch(channel: number, note: number, callback: (pressure: number) => void): () => void {
+    const key = MIDIHandler.getNoteKey(channel, note);
+    return MIDIHandler.addListener(this.polyAftertouchListeners, key, callback);
+  }
+
+  // Subscribe to System Exclusive messages. The callback receives the full
+  // message including the F0/F7 framing. Pass a manufacturer ID (e.g. [0x41]
+  // for Roland, [0x00, 0x20, 0x29] for Novation) to only receive its messages.
+  subscribeToSysEx(callback: (data: number[]) => void, manufacturerId?: number[]): () => void {
+    const key = manufacturerId
+      ? MIDIHandler.getManufacturerKey(manufacturerId)
+      : SYSEX_ANY_MANUFACTURER;
+    return MIDIHandler.addListener(this.sysExListeners, key, callback);
+  }
+
+  // Initialize MIDI system
+  initialize(): Promise<boolean> {
+    const transport = this.transport;
+    const init = (async () => {
+      const success = await transport.initialize();
+
+      // If the transport was swapped while initializing, the caller gets the
+      // new transport's result instead
+      if (transport !== this.transport) return this.latestInit ?? false;
+
+      transport.onstatechange = this.handleStateChange.bind(this);
+      return success;
+    })();
+
+    this.latestInit = init;
+    return init;
+  }
+
+  // Replace the transport, dropping every input and output selection. Listeners
+  // stay subscribed, so controls pick up messages from the new transport once
+  // its devices are selected.
+  async setTransport(transport: MIDITransport): Promise<boolean> {
+    this.setInputs([]);
+    this.selectedOutput = null;
+    this.additionalOutputs.clear();
+    this.transport.dispose();
+
+    this.transport = transport;
+    return this.initialize();
+  }
+
+  // Get the active transport
+  getTransport(): MIDITransport {
+    return this.transport;
+  }
+
+  // Handle MIDI state changes
+  private handleStateChange(state: MIDIConnectionState) {
+    const { port } = state;
+    console.log(`MIDI port ${port.type} "${port.name || 'Unknown'}" state changed to ${port.state}`);
     
     // Notify subscribers
     if (this.onStateChange) {
@@ -59,20 +225,18 @@ export class MIDIHandler {
 
   // List all available MIDI devices
   listDevices(): MIDIDeviceList {
-    if (!this.midiAccess) return { inputs: [], outputs: [] };
-
-    const inputs = Array.from(this.midiAccess.inputs.values()).map(input => ({
+    const inputs = this.transport.getInputs().map(input => ({
       id: input.id,
-      manufacturer: input.manufacturer ?? '',
-      name: input.name ?? '',
+      manufacturer: input.manufacturer,
+      name: input.name,
       type: 'input' as const,
       state: input.state
     }));
 
-    const outputs = Array.from(this.midiAccess.outputs.values()).map(output => ({
+    const outputs = this.transport.getOutputs().map(output => ({
       id: output.id,
-      manufacturer: output.manufacturer ?? '',
-      name: output.name ?? '',
+      manufacturer: output.manufacturer,
+      name: output.name,
       type: 'output' as const,
       state: output.state
     }));
@@ -80,47 +244,191 @@ export class MIDIHandler {
     return { inputs, outputs };
   }
 
-  // Select MIDI input device
+  // Select a single MIDI input device
   selectInput(deviceId: string): boolean {
-    if (!this.midiAccess) return false;
+    if (!this.findInput(deviceId)) return false;
+    return this.setInputs([deviceId]);
+  }
 
-    const input = this.midiAccess.inputs.get(deviceId);
-    if (input) {
-      if (this.selectedInput) {
-        this.selectedInput.onmidimessage = null;
+  // Listen on a set of input devices, replacing the previous selection. Messages
+  // from every input reach the same subscribers. Returns false if any of the
+  // devices could not be found.
+  setInputs(deviceIds: string[]): boolean {
+    this.selectedInputs.forEach(input => {
+      input.onmessage = null;
+    });
+    this.selectedInputs.clear();
+
+    let allFound = true;
+    deviceIds.forEach(deviceId => {
+      const input = this.findInput(deviceId);
+      if (input) {
+        input.onmessage = this.handleMIDIMessage;
+        this.selectedInputs.set(deviceId, input);
+      } else {
+        allFound = false;
       }
-      this.selectedInput = input;
-      this.selectedInput.onmidimessage = this.handleMIDIMessage;
-      return true;
-    }
-    return false;
+    });
+    return allFound;
+  }
+
+  private findInput(deviceId: string): MIDITransportInput | undefined {
+    return this.transport.getInputs().find(input => input.id === deviceId);
+  }
+
+  private findOutput(deviceId: string): MIDITransportOutput | undefined {
+    return this.transport.getOutputs().find(output => output.id === deviceId);
+  }
+
+  // Get the IDs of the inputs currently being listened to
+  getSelectedInputIds(): string[] {
+    return Array.from(this.selectedInputs.keys());
   }
 
   // Handle incoming MIDI message
-  private handleMIDIMessage = (event: MIDIMessageEvent) => {
-    // Ensure data exists and is not null
-    if (!event.data) return;
+  private handleMIDIMessage = (data: number[]) => {
+    if (data.length === 0) return;
     
-    const data = Array.from(new Uint8Array(event.data));
-    const [status, cc, value] = data;
+    const [status, data1, data2] = data;
+    const channel = (status & 0x0F) + 1; // Convert to 1-based channel number
     
-    // Check if it's a CC message (0xB0-0xBF)
-    if ((status & 0xF0) === 0xB0) {
-      const channel = (status & 0x0F) + 1; // Convert to 1-based channel number
-      const key = MIDIHandler.getCCKey(channel, cc);
-      const listener = this.ccListeners.get(key);
-      
-      if (listener) {
-        listener(value);
+    switch (status & 0xF0) {
+      // Note Off (0x80-0x8F)
+      case 0x80: {
+        MIDIHandler.notifyListeners(this.noteListeners, MIDIHandler.getNoteKey(channel, data1), 0, false);
+        break;
+      }
+
+      // Note On (0x90-0x9F) - velocity 0 is treated as Note Off
+      case 0x90: {
+        MIDIHandler.notifyListeners(this.noteListeners, MIDIHandler.getNoteKey(channel, data1), data2, data2 > 0);
+        break;
+      }
+
+      // Polyphonic Key Pressure (0xA0-0xAF)
+      case 0xA0: {
+        MIDIHandler.notifyListeners(this.polyAftertouchListeners, MIDIHandler.getNoteKey(channel, data1), data2);
+        break;
+      }
+
+      // Control Change (0xB0-0xBF)
+      case 0xB0: {
+        MIDIHandler.notifyListeners(this.ccListeners, MIDIHandler.getCCKey(channel, data1), data2);
+        this.handleCC14(channel, data1, data2);
+        this.handleParameterCC(channel, data1, data2);
+        break;
+      }
+
+      // Program Change (0xC0-0xCF) - single data byte
+      case 0xC0: {
+        MIDIHandler.notifyListeners(this.programChangeListeners, channel, data1);
+        break;
+      }
+
+      // Channel Pressure (0xD0-0xDF) - single data byte
+      case 0xD0: {
+        MIDIHandler.notifyListeners(this.channelPressureListeners, channel, data1);
+        break;
+      }
+
+      // Pitch Bend (0xE0-0xEF) - LSB first, then MSB
+      case 0xE0: {
+        MIDIHandler.notifyListeners(this.pitchBendListeners, channel, (data2 << 7) | data1);
+        break;
+      }
+
+      // System messages (0xF0-0xFF) - no channel
+      case 0xF0: {
+        if (status === SYSEX_START) {
+          this.handleSysEx(data);
+        } else if (status >= 0xF8) {
+          // System realtime (clock, start, continue, stop)
+          this.clock.handleRealtime(status);
+        }
+        break;
       }
     }
   };
 
+  // Deliver a SysEx message to catch-all listeners and to listeners for its manufacturer
+  private handleSysEx(data: number[]) {
+    if (data.length < 3) return;
+
+    // 0x00 means an extended 3-byte manufacturer ID follows
+    const manufacturerId = data[1] === 0x00 ? data.slice(1, 4) : [data[1]];
+
+    MIDIHandler.notifyListeners(this.sysExListeners, SYSEX_ANY_MANUFACTURER, data);
+    MIDIHandler.notifyListeners(this.sysExListeners, MIDIHandler.getManufacturerKey(manufacturerId), data);
+  }
+
+  // Reassemble 14-bit CC pairs. The MSB resets the LSB to 0 (per the MIDI spec)
+  // so devices that only send the MSB still reach 14-bit subscribers.
+  private handleCC14(channel: number, cc: number, value: number) {
+    if (cc < CC14_LSB_OFFSET) {
+      const key = MIDIHandler.getCCKey(channel, cc);
+      this.cc14MsbValues.set(key, value);
+      MIDIHandler.notifyListeners(this.cc14Listeners, key, value << 7);
+    } else if (cc < CC14_LSB_OFFSET * 2) {
+      const key = MIDIHandler.getCCKey(channel, cc - CC14_LSB_OFFSET);
+      const msb = this.cc14MsbValues.get(key);
+      if (msb === undefined) return;
+      MIDIHandler.notifyListeners(this.cc14Listeners, key, (msb << 7) | value);
+    }
+  }
+
+  // Track NRPN/RPN parameter selection and data entry for a channel
+  private handleParameterCC(channel: number, cc: number, value: number) {
+    let state = this.parameterStates.get(channel);
+    if (!state) {
+      state = { type: null, msb: NULL_PARAMETER_BYTE, lsb: NULL_PARAMETER_BYTE, dataMsb: 0 };
+      this.parameterStates.set(channel, state);
+    }
+
+    switch (cc) {
+      case CC_NRPN_MSB:
+      case CC_NRPN_LSB:
+      case CC_RPN_MSB:
+      case CC_RPN_LSB: {
+        const type = cc === CC_NRPN_MSB || cc === CC_NRPN_LSB ? 'nrpn' : 'rpn';
+        // Switching between NRPN and RPN starts a fresh parameter number
+        if (state.type !== type) {
+          state.type = type;
+          state.msb = NULL_PARAMETER_BYTE;
+          state.lsb = NULL_PARAMETER_BYTE;
+        }
+        if (cc === CC_NRPN_MSB || cc === CC_RPN_MSB) {
+          state.msb = value;
+        } else {
+          state.lsb = value;
+        }
+        break;
+      }
+
+      case CC_DATA_ENTRY_MSB:
+        state.dataMsb = value;
+        this.notifyParameter(channel, state, value << 7);
+        break;
+
+      case CC_DATA_ENTRY_LSB:
+        this.notifyParameter(channel, state, (state.dataMsb << 7) | value);
+        break;
+    }
+  }
+
+  // Deliver a data entry value to the currently selected NRPN/RPN parameter
+  private notifyParameter(channel: number, state: ParameterState, value: number) {
+    if (!state.type) return;
+    // The null parameter (127/127) means no parameter is selected
+    if (state.msb === NULL_PARAMETER_BYTE && state.lsb === NULL_PARAMETER_BYTE) return;
+
+    const key = MIDIHandler.getParameterKey(channel, (state.msb << 7) | state.lsb);
+    const registry = state.type === 'nrpn' ? this.nrpnListeners : this.rpnListeners;
+    MIDIHandler.notifyListeners(registry, key, value);
+  }
+
   // Select MIDI output device
   selectOutput(deviceId: string): boolean {
-    if (!this.midiAccess) return false;
-
-    const output = this.midiAccess.outputs.get(deviceId);
+    const output = this.findOutput(deviceId);
     if (output) {
       this.selectedOutput = output;
       return true;
@@ -128,25 +436,91 @@ export class MIDIHandler {
     return false;
   }
 
+  // Keep extra outputs open alongside the main output so controls can route to
+  // them. Returns false if any of the devices could not be found.
+  setAdditionalOutputs(deviceIds: string[]): boolean {
+    this.additionalOutputs.clear();
+
+    let allFound = true;
+    deviceIds.forEach(deviceId => {
+      const output = this.findOutput(deviceId);
+      if (output) {
+        this.additionalOutputs.set(deviceId, output);
+      } else {
+        allFound = false;
+      }
+    });
+    return allFound;
+  }
+
+  // Get every output messages can be routed to (main output first)
+  getActiveOutputs(): MIDITransportOutput[] {
+    const outputs = this.selectedOutput ? [this.selectedOutput] : [];
+    this.additionalOutputs.forEach(output => {
+      if (output.id !== this.selectedOutput?.id) {
+        outputs.push(output);
+      }
+    });
+    return outputs;
+  }
+
+  // Resolve the outputs for a control's port setting: the main output by
+  // default, every active output for 'all', or a single active output by ID
+  private getTargetOutputs(port?: string): MIDITransportOutput[] {
+    if (!port) {
+      if (!this.selectedOutput) {
+        console.warn('No MIDI output selected');
+        return [];
+      }
+      return [this.selectedOutput];
+    }
+
+    const activeOutputs = this.getActiveOutputs();
+    if (port === MIDI_PORT_ALL) {
+      if (activeOutputs.length === 0) {
+        console.warn('No MIDI output selected');
+      }
+      return activeOutputs;
+    }
+
+    const output = activeOutputs.find(o => o.id === port);
+    if (!output) {
+      console.warn(`MIDI output ${port} is not active`);
+      return [];
+    }
+    return [output];
+  }
+
+  // Send each message, in order, to every target output
+  private static sendToOutputs(outputs: MIDITransportOutput[], ...messages: number[][]) {
+    outputs.forEach(output => messages.forEach(message => output.send(message)));
+  }
+
+  // Tell sent CC listeners about each Control Change message just sent
+  private notifySentCC(...messages: number[][]) {
+    messages.forEach(([status, cc, value]) => {
+      MIDIHandler.notifyListeners(this.sentCCListeners, MIDIHandler.getCCKey((status & 0x0F) + 1, cc), value);
+    });
+  }
+
   // Set state change callback
   setStateChangeCallback(callback: (state: MIDIConnectionState) => void) {
     this.onStateChange = callback;
   }
 
   // Send MIDI Control Change message
-  sendCC(channel: number, cc: number, value: number): boolean {
-    if (!this.selectedOutput) {
-      console.warn('No MIDI output selected');
-      return false;
-    }
+  sendCC(channel: number, cc: number, value: number, port?: string): boolean {
+    const outputs = this.getTargetOutputs(port);
+    if (outputs.length === 0) return false;
 
     try {
       // MIDI CC message: Status byte (0xB0 | channel-1) + CC number + value
       const message = [0xB0 | (channel - 1), cc, value];
-      this.selectedOutput.send(message);
+      MIDIHandler.sendToOutputs(outputs, message);
+      this.notifySentCC(message);
       
       // Debug output
-      console.log(`Sent MIDI CC - Channel: ${channel}, CC: ${cc}, Value: ${value}`);
+      console.debug(`Sent MIDI CC - Channel: ${channel}, CC: ${cc}, Value: ${value}`);
       return true;
     } catch (error) {
       console.error('Failed to send MIDI message:', error);
@@ -154,13 +528,214 @@ export class MIDIHandler {
     }
   }
 
+  // Send 14-bit MIDI Control Change as an MSB/LSB pair (CC n and CC n+32)
+  sendCC14(channel: number, cc: number, value: number, port?: string): boolean {
+    if (cc >= CC14_LSB_OFFSET) {
+      console.warn(`CC ${cc} cannot be used for 14-bit messages (must be 0-31)`);
+      return false;
+    }
+
+    const outputs = this.getTargetOutputs(port);
+    if (outputs.length === 0) return false;
+
+    try {
+      const clamped = Math.max(0, Math.min(CC14_MAX, Math.round(value)));
+      const status = 0xB0 | (channel - 1);
+      // MSB first so receivers can reset their LSB before it arrives
+      const messages = [
+        [status, cc, (clamped >> 7) & 0x7F],
+        [status, cc + CC14_LSB_OFFSET, clamped & 0x7F],
+      ];
+      MIDIHandler.sendToOutputs(outputs, ...messages);
+      this.notifySentCC(...messages);
+      
+      // Debug output
+      console.debug(`Sent 14-bit MIDI CC - Channel: ${channel}, CC: ${cc}/${cc + CC14_LSB_OFFSET}, Value: ${clamped}`);
+      return true;
+    } catch (error) {
+      console.error('Failed to send 14-bit MIDI message:', error);
+      return false;
+    }
+  }
+
+  // Send an NRPN value (99/98 parameter select, then 6 and optionally 38)
+  sendNRPN(channel: number, parameter: number, value: number, highResolution = false, nullTermination = false, port?: string): boolean {
+    return this.sendParameter(channel, CC_NRPN_MSB, CC_NRPN_LSB, parameter, value, highResolution, nullTermination, port);
+  }
+
+  // Send an RPN value (101/100 parameter select, then 6 and optionally 38)
+  sendRPN(channel: number, parameter: number, value: number, highResolution = false, nullTermination = false, port?: string): boolean {
+    return this.sendParameter(channel, CC_RPN_MSB, CC_RPN_LSB, parameter, value, highResolution, nullTermination, port);
+  }
+
+  // Shared NRPN/RPN sequence. 7-bit values only use data entry MSB; 14-bit
+  // values split across MSB (CC 6) and LSB (CC 38). Null termination selects
+  // the null RPN afterwards so stray data entry messages are ignored.
+  private sendParameter(
+    channel: number,
+    selectMsbCC: number,
+    selectLsbCC: number,
+    parameter: number,
+    value: number,
+    highResolution: boolean,
+    nullTermination: boolean,
+    port?: string
+  ): boolean {
+    const outputs = this.getTargetOutputs(port);
+    if (outputs.length === 0) return false;
+
+    try {
+      const status = 0xB0 | (channel - 1);
+      const clampedParameter = Math.max(0, Math.min(CC14_MAX, Math.round(parameter)));
+      const maxValue = highResolution ? CC14_MAX : 127;
+      const clampedValue = Math.max(0, Math.min(maxValue, Math.round(value)));
+
+      const messages = [
+        [status, selectMsbCC, (clampedParameter >> 7) & 0x7F],
+        [status, selectLsbCC, clampedParameter & 0x7F],
+      ];
+
+      if (highResolution) {
+        messages.push([status, CC_DATA_ENTRY_MSB, (clampedValue >> 7) & 0x7F]);
+        messages.push([status, CC_DATA_ENTRY_LSB, clampedValue & 0x7F]);
+      } else {
+        messages.push([status, CC_DATA_ENTRY_MSB, clampedValue]);
+      }
+
+      if (nullTermination) {
+        messages.push([status, CC_RPN_MSB, NULL_PARAMETER_BYTE]);
+        messages.push([status, CC_RPN_LSB, NULL_PARAMETER_BYTE]);
+      }
+
+      MIDIHandler.sendToOutputs(outputs, ...messages);
+      this.notifySentCC(...messages);
+
+      // Debug output
+      const type = selectMsbCC === CC_NRPN_MSB ? 'NRPN' : 'RPN';
+      console.debug(`Sent MIDI ${type} - Channel: ${channel}, Parameter: ${clampedParameter}, Value: ${clampedValue}`);
+      return true;
+    } catch (error) {
+      console.error('Failed to send MIDI parameter message:', error);
+      return false;
+    }
+  }
+
+  // Send a value using whatever message a control's MIDI config describes,
+  // so callers don't need to know about pitch bend, 14-bit CC or NRPN/RPN.
+  // In note mode the value is the velocity and 0 sends Note Off.
+  sendControlValue(midi: MidiConfig, value: number): boolean {
+    const channel = Number(midi.channel ?? 1);
+    const cc = Number(midi.cc ?? 0);
+    const parameter = Number(midi.parameter ?? 0);
+    const highResolution = !!midi.highResolution;
+    const nullTermination = !!midi.nullTermination;
+    const port = midi.port;
+
+    switch (midi.messageType ?? 'cc') {
+      case 'pitchbend':
+        return this.sendPitchBend(channel, value, port);
+      case 'note': {
+        const note = Number(midi.note ?? DEFAULT_NOTE);
+        const velocity = Math.max(0, Math.min(127, Math.round(value)));
+        return velocity > 0
+          ? this.sendNoteOn(channel, note, velocity, port)
+          : this.sendNoteOff(channel, note, port);
+      }
+      case 'nrpn':
+        return this.sendNRPN(channel, parameter, value, highResolution, nullTermination, port);
+      case 'rpn':
+        return this.sendRPN(channel, parameter, value, highResolution, nullTermination, port);
+      default:
+        return highResolution
+          ? this.sendCC14(channel, cc, value, port)
+          : this.sendCC(channel, cc, value, port);
+    }
+  }
+
+  // Send MIDI Pitch Bend message (14-bit value, 0-16383, centre 8192)
+  sendPitchBend(channel: number, value: number, port?: string): boolean {
+    const outputs = this.getTargetOutputs(port);
+    if (outputs.length === 0) return false;
+
+    try {
+      const clamped = Math.max(0, Math.min(PITCH_BEND_MAX, Math.round(value)));
+      // Pitch Bend message: Status byte (0xE0 | channel-1) + LSB + MSB
+      MIDIHandler.sendToOutputs(outputs, [0xE0 | (channel - 1), clamped & 0x7F, (clamped >> 7) & 0x7F]);
+      return true;
+    } catch (error) {
+      console.error('Failed to send Pitch Bend message:', error);
+      return false;
+    }
+  }
+
+  // Send Bank Select (CC 0 MSB / CC 32 LSB, each optional) followed by Program Change
+  sendProgramChange(channel: number, program: number, bankMsb?: number, bankLsb?: number, port?: string): boolean {
+    const outputs = this.getTargetOutputs(port);
+    if (outputs.length === 0) return false;
+
+    try {
+      const status = 0xB0 | (channel - 1);
+      const messages: number[][] = [];
+      if (bankMsb !== undefined) {
+        messages.push([status, CC_BANK_SELECT_MSB, bankMsb & 0x7F]);
+      }
+      if (bankLsb !== undefined) {
+        messages.push([status, CC_BANK_SELECT_LSB, bankLsb & 0x7F]);
+      }
+      // Program Change message: Status byte (0xC0 | channel-1) + program
+      messages.push([0xC0 | (channel - 1), program & 0x7F]);
+      MIDIHandler.sendToOutputs(outputs, ...messages);
+
+      // Debug output
+      console.log(`Sent MIDI Program Change - Channel: ${channel}, Bank: ${bankMsb ?? '-'}/${bankLsb ?? '-'}, Program: ${program}`);
+      return true;
+    } catch (error) {
+      console.error('Failed to send Program Change message:', error);
+      return false;
+    }
+  }
+
+  // Send a System Exclusive message. The data must include the F0/F7 framing.
+  sendSysEx(data: number[], port?: string): boolean {
+    if (!this.transport.sysexEnabled) {
+      console.warn('SysEx access was not granted');
+      return false;
+    }
+
+    if (data.length < 3 || data[0] !== SYSEX_START || data[data.length - 1] !== SYSEX_END) {
+      console.warn('SysEx message must start with F0 and end with F7');
+      return false;
+    }
+
+    // Everything between the framing bytes must be 7-bit data
+    if (data.slice(1, -1).some(byte => byte < 0 || byte > 0x7F)) {
+      console.warn('SysEx message contains bytes outside 00-7F');
+      return false;
+    }
+
+    const outputs = this.getTargetOutputs(port);
+    if (outputs.length === 0) return false;
+
+    try {
+      MIDIHandler.sendToOutputs(outputs, data);
+
+      // Debug output
+      console.log(`Sent MIDI SysEx - ${data.length} bytes`);
+      return true;
+    } catch (error) {
+      console.error('Failed to send SysEx message:', error);
+      return false;
+    }
+  }
+
   // Send MIDI Note On message
-  sendNoteOn(channel: number, note: number, velocity: number): boolean {
-    if (!this.selectedOutput) return false;
+  sendNoteOn(channel: number, note: number, velocity: number, port?: string): boolean {
+    const outputs = this.getTargetOutputs(port);
+    if (outputs.length === 0) return false;
 
     try {
       // Note On message: Status byte (0x90 | channel-1) + note + velocity
-      this.selectedOutput.send([0x90 | (channel - 1), note, velocity]);
+      MIDIHandler.sendToOutputs(outputs, [0x90 | (channel - 1), note, velocity]);
       return true;
     } catch (error) {
       console.error('Failed to send Note On message:', error);
@@ -169,12 +744,13 @@ export class MIDIHandler {
   }
 
   // Send MIDI Note Off message
-  sendNoteOff(channel: number, note: number): boolean {
-    if (!this.selectedOutput) return false;
+  sendNoteOff(channel: number, note: number, port?: string): boolean {
+    const outputs = this.getTargetOutputs(port);
+    if (outputs.length === 0) return false;
 
     try {
       // Note Off message: Status byte (0x80 | channel-1) + note + velocity 0
-      this.selectedOutput.send([0x80 | (channel - 1), note, 0]);
+      MIDIHandler.sendToOutputs(outputs, [0x80 | (channel - 1), note, 0]);
       return true;
     } catch (error) {
       console.error('Failed to send Note Off message:', error);
@@ -182,18 +758,112 @@ export class MIDIHandler {
     }
   }
 
+  // Clock and transport messages go to every active output so all devices stay in sync
+  private sendRealtime(status: number) {
+    try {
+      MIDIHandler.sendToOutputs(this.getActiveOutputs(), [status]);
+    } catch (error) {
+      console.error('Failed to send MIDI clock message:', error);
+    }
+  }
+
+  getClockState(): ClockState {
+    return this.clock.getState();
+  }
+
+  // Generate clock at a tempo, or follow an incoming clock
+  setClockSource(source: ClockSource) {
+    this.clock.setSource(source);
+  }
+
+  setClockBPM(bpm: number) {
+    this.clock.setBPM(bpm);
+  }
+
+  startClock() {
+    this.clock.start();
+  }
+
+  continueClock() {
+    this.clock.continue();
+  }
+
+  stopClock() {
+    this.clock.stop();
+  }
+
+  tapTempo() {
+    this.clock.tap();
+  }
+
+  subscribeToClock(callback: (state: ClockState) => void): () => void {
+    return this.clock.subscribe(callback);
+  }
+
+  subscribeToClockTick(callback: (tick: number) => void): () => void {
+    return this.clock.subscribeToTick(callback);
+  }
+
+  // Delay a send to the next division boundary while the clock runs
+  quantizeToClock(key: string, division: ClockDivision, callback: () => void) {
+    this.clock.quantize(key, division, callback);
+  }
+
   // Get current connection status
   isConnected(): boolean {
     return this.selectedOutput !== null && this.selectedOutput.state === 'connected';
   }
 
   // Get currently selected output device
-  getSelectedOutput(): MIDIOutput | null {
+  getSelectedOutput(): MIDITransportOutput | null {
     return this.selectedOutput;
   }
 }
 
+// Port value that routes a control to every active output
+export const MIDI_PORT_ALL = 'all';
+
+// Pitch Bend range constants
+export const PITCH_BEND_MAX = 16383;
+export const PITCH_BEND_CENTER = 8192;
+
+// Note mode defaults (middle C at a moderate velocity)
+export const DEFAULT_NOTE = 60;
+export const DEFAULT_VELOCITY = 100;
+
+// 14-bit CC constants (LSB controller is MSB controller + 32)
+export const CC14_MAX = 16383;
+export const CC14_LSB_OFFSET = 32;
+
+// Bank Select controller numbers
+export const CC_BANK_SELECT_MSB = 0;
+export const CC_BANK_SELECT_LSB = 32;
+
+// System Exclusive framing bytes
+export const SYSEX_START = 0xF0;
+export const SYSEX_END = 0xF7;
+const SYSEX_ANY_MANUFACTURER = '*';
+
+// NRPN/RPN controller numbers
+const CC_DATA_ENTRY_MSB = 6;
+const CC_DATA_ENTRY_LSB = 38;
+const CC_NRPN_LSB = 98;
+const CC_NRPN_MSB = 99;
+const CC_RPN_LSB = 100;
+const CC_RPN_MSB = 101;
+const NULL_PARAMETER_BYTE = 127;
+
 // Types
+type ListenerRegistry<K, L> = Map<K, Set<L>>;
+
+// Per-channel NRPN/RPN parser state
+interface ParameterState {
+  type: 'nrpn' | 'rpn' | null;
+  msb: number;
+  lsb: number;
+  dataMsb: number;
+}
+
 export interface MIDIDevice {
   id: string;
   manufacturer: string;
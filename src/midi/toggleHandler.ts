@@ -1,4 +1,5 @@
 import { midiHandler } from "./midiHandler";
+import { MidiConfig } from "../types";
 
 /**
  * Helper class for handling toggle button MIDI operations
@@ -14,13 +15,14 @@ class ToggleHandler {
    * @param channel MIDI channel (1-16)
    * @param cc MIDI CC number
    * @param value Value to send (typically 0 or 127)
-   * @param previousValue Previous value that was sent
+   * @param midi Optional full MIDI config, used to send NRPN/RPN or 14-bit values
    * @returns Promise that resolves to true if successful, false otherwise
    */
   async sendToggleState(
     channel: number,
     cc: number,
-    value: number
+    value: number,
+    midi?: MidiConfig
   ): Promise<boolean> {
     // Create a key for this control
     const key = `${channel}-${cc}`;
@@ -39,7 +41,9 @@ class ToggleHandler {
     
     try {
       // Send the MIDI message
-      const success = midiHandler.sendCC(channel, cc, value);
+      const success = midi
+        ? midiHandler.sendControlValue(midi, value)
+        : midiHandler.sendCC(channel, cc, value);
       
       // For debugging
       console.log(`Sent toggle state: ch=${channel}, cc=${cc}, val=${value}, success=${success}`);
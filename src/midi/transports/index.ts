@@ -0,0 +1,28 @@
+import { MIDITransport, MIDITransportType } from './types';
+import { WebMIDITransport } from './webMidiTransport';
+import { VirtualMIDITransport } from './virtualTransport';
+import { WebSocketMIDITransport } from './webSocketTransport';
+
+export * from './types';
+export { WebMIDITransport } from './webMidiTransport';
+export { VirtualMIDITransport } from './virtualTransport';
+export { WebSocketMIDITransport } from './webSocketTransport';
+
+export interface TransportOptions {
+  bridgeUrl?: string;  // WebSocket URL of the MIDI bridge
+}
+
+export const DEFAULT_BRIDGE_URL = 'ws://localhost:8765';
+
+// Create a transport for a backend type
+export const createTransport = (type: MIDITransportType, options: TransportOptions = {}): MIDITransport => {
+  switch (type) {
+    case 'virtual':
+      return new VirtualMIDITransport();
+    case 'websocket':
+      return new WebSocketMIDITransport(options.bridgeUrl || DEFAULT_BRIDGE_URL);
+    case 'webmidi':
+    default:
+      return new WebMIDITransport();
+  }
+};
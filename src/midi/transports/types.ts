@@ -0,0 +1,32 @@
+import { MIDIConnectionState } from '../midiHandler';
+
+// Common fields of every port a transport exposes
+export interface MIDITransportPort {
+  readonly id: string;
+  readonly name: string;
+  readonly manufacturer: string;
+  readonly state: MIDIPortDeviceState;
+}
+
+export interface MIDITransportInput extends MIDITransportPort {
+  // Called with the raw bytes of each incoming message
+  onmessage: ((data: number[]) => void) | null;
+}
+
+export interface MIDITransportOutput extends MIDITransportPort {
+  send(data: number[]): void;
+}
+
+// A source of MIDI ports. MIDIHandler talks to hardware only through this,
+// so the Web MIDI API can be swapped for virtual or remote devices.
+export interface MIDITransport {
+  readonly type: MIDITransportType;
+  readonly sysexEnabled: boolean;
+  onstatechange: ((state: MIDIConnectionState) => void) | null;
+  initialize(): Promise<boolean>;
+  getInputs(): MIDITransportInput[];
+  getOutputs(): MIDITransportOutput[];
+  dispose(): void;
+}
+
+export type MIDITransportType = 'webmidi' | 'virtual' | 'websocket';
@@ -0,0 +1,101 @@
+import { MIDITransport, MIDITransportInput, MIDITransportOutput } from './types';
+import { MIDIConnectionState } from '../midiHandler';
+
+// Device IDs avoid '-' because selected IDs are split on it to strip type suffixes
+const VIRTUAL_INPUT_ID = 'virtual_loopback_in';
+const VIRTUAL_OUTPUT_ID = 'virtual_loopback_out';
+const VIRTUAL_DEVICE_NAME = 'Virtual Loopback';
+const VIRTUAL_MANUFACTURER = 'Cyan MIDI Controller';
+
+export interface RecordedMIDIMessage {
+  timestamp: number;
+  data: number[];
+}
+
+export interface VirtualTransportOptions {
+  echo?: boolean;        // Feed sent messages back into the virtual input (default true)
+  maxRecorded?: number;  // Number of sent messages to keep (default 1000)
+}
+
+class VirtualInputPort implements MIDITransportInput {
+  readonly id = VIRTUAL_INPUT_ID;
+  readonly name = VIRTUAL_DEVICE_NAME;
+  readonly manufacturer = VIRTUAL_MANUFACTURER;
+  readonly state = 'connected' as const;
+  onmessage: ((data: number[]) => void) | null = null;
+}
+
+class VirtualOutputPort implements MIDITransportOutput {
+  readonly id = VIRTUAL_OUTPUT_ID;
+  readonly name = VIRTUAL_DEVICE_NAME;
+  readonly manufacturer = VIRTUAL_MANUFACTURER;
+  readonly state = 'connected' as const;
+
+  constructor(private readonly onSend: (data: number[]) => void) {}
+
+  send(data: number[]) {
+    this.onSend([...data]);
+  }
+}
+
+// In-memory transport with one input/output pair. Everything sent is recorded
+// and, with echo on, played back into the input as if a device had answered,
+// so controls and sync work without MIDI hardware.
+export class VirtualMIDITransport implements MIDITransport {
+  readonly type = 'virtual' as const;
+  readonly sysexEnabled = true;
+  onstatechange: ((state: MIDIConnectionState) => void) | null = null;
+  echo: boolean;
+  private maxRecorded: number;
+  private recorded: RecordedMIDIMessage[] = [];
+  private input = new VirtualInputPort();
+  private output = new VirtualOutputPort(data => this.handleSend(data));
+
+  constructor({ echo = true, maxRecorded = 1000 }: VirtualTransportOptions = {}) {
+    this.echo = echo;
+    this.maxRecorded = maxRecorded;
+  }
+
+  async initialize(): Promise<boolean> {
+    return true;
+  }
+
+  getInputs(): MIDITransportInput[] {
+    return [this.input];
+  }
+
+  getOutputs(): MIDITransportOutput[] {
+    return [this.output];
+  }
+
+  // Deliver a message to the virtual input, as if a device had sent it
+  receive(data: number[]) {
+    this.input.onmessage?.([...data]);
+  }
+
+  // Messages sent to the virtual output, oldest first
+  getRecordedMessages(): RecordedMIDIMessage[] {
+    return [...this.recorded];
+  }
+
+  clearRecordedMessages() {
+    this.recorded = [];
+  }
+
+  private handleSend(data: number[]) {
+    this.recorded.push({ timestamp: performance.now(), data });
+    if (this.recorded.length > this.maxRecorded) {
+      this.recorded.splice(0, this.recorded.length - this.maxRecorded);
+    }
+
+    // Echo asynchronously, like a real device round trip
+    if (this.echo) {
+      setTimeout(() => this.receive(data), 0);
+    }
+  }
+
+  dispose() {
+    this.input.onmessage = null;
+    this.onstatechange = null;
+  }
+}
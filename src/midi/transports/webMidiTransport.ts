@@ -0,0 +1,127 @@
+import { MIDITransport, MIDITransportInput, MIDITransportOutput } from './types';
+import { MIDIConnectionState } from '../midiHandler';
+
+// Adapts a Web MIDI input to the transport interface
+class WebMIDIInputPort implements MIDITransportInput {
+  private listener: ((data: number[]) => void) | null = null;
+
+  constructor(private readonly input: MIDIInput) {}
+
+  get id() { return this.input.id; }
+  get name() { return this.input.name ?? ''; }
+  get manufacturer() { return this.input.manufacturer ?? ''; }
+  get state() { return this.input.state; }
+
+  get onmessage() {
+    return this.listener;
+  }
+
+  set onmessage(listener: ((data: number[]) => void) | null) {
+    this.listener = listener;
+    this.input.onmidimessage = listener
+      ? (event: MIDIMessageEvent) => {
+          // Ensure data exists and is not null
+          if (event.data) listener(Array.from(event.data));
+        }
+      : null;
+  }
+}
+
+// Adapts a Web MIDI output to the transport interface
+class WebMIDIOutputPort implements MIDITransportOutput {
+  constructor(private readonly output: MIDIOutput) {}
+
+  get id() { return this.output.id; }
+  get name() { return this.output.name ?? ''; }
+  get manufacturer() { return this.output.manufacturer ?? ''; }
+  get state() { return this.output.state; }
+
+  send(data: number[]) {
+    this.output.send(data);
+  }
+}
+
+// Transport backed by the browser's Web MIDI API
+export class WebMIDITransport implements MIDITransport {
+  readonly type = 'webmidi' as const;
+  onstatechange: ((state: MIDIConnectionState) => void) | null = null;
+  private midiAccess: MIDIAccess | null = null;
+  private inputs: Map<string, WebMIDIInputPort> = new Map();
+  private outputs: Map<string, WebMIDIOutputPort> = new Map();
+
+  get sysexEnabled() {
+    return this.midiAccess?.sysexEnabled ?? false;
+  }
+
+  async initialize(): Promise<boolean> {
+    if (!navigator.requestMIDIAccess) {
+      console.error('Web MIDI is not supported in this browser');
+      return false;
+    }
+
+    try {
+      this.midiAccess = await navigator.requestMIDIAccess({ sysex: true });
+      this.midiAccess.onstatechange = this.handleStateChange.bind(this);
+      return true;
+    } catch (error) {
+      console.error('Failed to initialize MIDI system:', error);
+      return false;
+    }
+  }
+
+  // Handle MIDI state changes
+  private handleStateChange(event: MIDIConnectionEvent) {
+    if (!event.port || !this.onstatechange) return;
+
+    const port = event.port;
+    this.onstatechange({
+      port: {
+        id: port.id,
+        manufacturer: port.manufacturer ?? '',
+        name: port.name ?? '',
+        state: port.state,
+        type: port.type,
+      },
+      timestamp: event.timeStamp
+    });
+  }
+
+  // Wrappers are cached so listeners set on an input stay attached to it
+  getInputs(): MIDITransportInput[] {
+    if (!this.midiAccess) return [];
+
+    return Array.from(this.midiAccess.inputs.values()).map(input => {
+      let port = this.inputs.get(input.id);
+      if (!port) {
+        port = new WebMIDIInputPort(input);
+        this.inputs.set(input.id, port);
+      }
+      return port;
+    });
+  }
+
+  getOutputs(): MIDITransportOutput[] {
+    if (!this.midiAccess) return [];
+
+    return Array.from(this.midiAccess.outputs.values()).map(output => {
+      let port = this.outputs.get(output.id);
+      if (!port) {
+        port = new WebMIDIOutputPort(output);
+        this.outputs.set(output.id, port);
+      }
+      return port;
+    });
+  }
+
+  dispose() {
+    this.inputs.forEach(input => {
+      input.onmessage = null;
+    });
+    this.inputs.clear();
+    this.outputs.clear();
+    if (this.midiAccess) {
+      this.midiAccess.onstatechange = null;
+    }
+    this.onstatechange = null;
+  }
+}
@@ -0,0 +1,277 @@
+import { MIDITransport, MIDITransportInput, MIDITransportOutput } from './types';
+import { MIDIConnectionState, MIDIDevice, MIDIDeviceList } from '../midiHandler';
+
+// Messages exchanged with bridge/midi-bridge.js
+type BridgeServerMessage =
+  | { type: 'devices'; devices: MIDIDeviceList }
+  | { type: 'message'; portId: string; data: number[] };
+
+type BridgeClientMessage =
+  | { type: 'send'; portId: string; data: number[] };
+
+const CONNECT_TIMEOUT_MS = 5000;
+const RECONNECT_DELAY_MS = 2000;
+
+// A port on the bridge machine. Objects are kept across device list updates
+// so listeners set on an input stay attached while it reconnects.
+class RemotePort {
+  constructor(protected device: MIDIDevice) {}
+
+  get id() { return this.device.id; }
+  get name() { return this.device.name; }
+  get manufacturer() { return this.device.manufacturer; }
+  get state() { return this.device.state; }
+
+  update(device: MIDIDevice) {
+    this.device = device;
+  }
+
+  setState(state: MIDIPortDeviceState) {
+    this.device = { ...this.device, state };
+  }
+}
+
+class RemoteInputPort extends RemotePort implements MIDITransportInput {
+  onmessage: ((data: number[]) => void) | null = null;
+}
+
+class RemoteOutputPort extends RemotePort implements MIDITransportOutput {
+  constructor(device: MIDIDevice, private readonly transport: WebSocketMIDITransport) {
+    super(device);
+  }
+
+  send(data: number[]) {
+    this.transport.sendToBridge({ type: 'send', portId: this.id, data });
+  }
+}
+
+// Transport that tunnels MIDI over a WebSocket to the companion bridge script,
+// which forwards to the ports on the machine it runs on
+export class WebSocketMIDITransport implements MIDITransport {
+  readonly type = 'websocket' as const;
+  readonly sysexEnabled = true;
+  onstatechange: ((state: MIDIConnectionState) => void) | null = null;
+  private socket: WebSocket | null = null;
+  private inputs: Map<string, RemoteInputPort> = new Map();
+  private outputs: Map<string, RemoteOutputPort> = new Map();
+  private reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+  // Shared by every caller while a connection is being made or a reconnect
+  // is waiting, so only one socket is ever open
+  private pendingInit: Promise<boolean> | null = null;
+  private cancelPendingInit: (() => void) | null = null;
+  private disposed = false;
+
+  constructor(readonly url: string) {}
+
+  // Connect and wait for the bridge's first device list
+  initialize(): Promise<boolean> {
+    if (this.socket && this.socket.readyState === WebSocket.OPEN) {
+      return Promise.resolve(true);
+    }
+    return this.pendingInit ?? this.open();
+  }
+
+  // Connect, after a delay when reconnecting, and settle once the bridge
+  // answers, fails or times out
+  private open(delayMs = 0): Promise<boolean> {
+    const pending = new Promise<boolean>(resolve => {
+      let settled = false;
+      let timeout: ReturnType<typeof setTimeout> | undefined;
+      const settle = (success: boolean) => {
+        if (settled) return;
+        settled = true;
+        clearTimeout(timeout);
+        resolve(success);
+      };
+
+      const start = () => {
+        timeout = setTimeout(() => {
+          console.error(`MIDI bridge at ${this.url} did not respond`);
+          settle(false);
+        }, CONNECT_TIMEOUT_MS);
+
+        this.connect(() => settle(true), () => settle(false));
+      };
+
+      this.cancelPendingInit = () => {
+        if (this.reconnectTimer) {
+          clearTimeout(this.reconnectTimer);
+          this.reconnectTimer = null;
+        }
+        settle(false);
+      };
+
+      if (delayMs > 0) {
+        this.reconnectTimer = setTimeout(() => {
+          this.reconnectTimer = null;
+          start();
+        }, delayMs);
+      } else {
+        start();
+      }
+    });
+
+    this.pendingInit = pending;
+    pending.then(() => {
+      if (this.pendingInit !== pending) return;
+      this.pendingInit = null;
+      this.cancelPendingInit = null;
+    });
+    return pending;
+  }
+
+  // Close the current socket without letting its handlers run again
+  private closeSocket() {
+    const socket = this.socket;
+    if (!socket) return;
+
+    socket.onmessage = null;
+    socket.onerror = null;
+    socket.onclose = null;
+    socket.close();
+    this.socket = null;
+  }
+
+  private connect(onReady?: () => void, onFail?: () => void) {
+    this.closeSocket();
+
+    let socket: WebSocket;
+    try {
+      socket = new WebSocket(this.url);
+    } catch (error) {
+      console.error('Failed to connect to MIDI bridge:', error);
+      onFail?.();
+      return;
+    }
+    this.socket = socket;
+
+    socket.onmessage = (event: MessageEvent) => {
+      let message: BridgeServerMessage;
+      try {
+        message = JSON.parse(event.data);
+      } catch (error) {
+        console.warn('Ignoring malformed message from MIDI bridge:', error);
+        return;
+      }
+
+      if (message.type === 'devices') {
+        this.updateDevices(message.devices);
+        onReady?.();
+      } else if (message.type === 'message') {
+        this.inputs.get(message.portId)?.onmessage?.(message.data);
+      }
+    };
+
+    socket.onerror = () => {
+      console.error(`MIDI bridge connection error (${this.url})`);
+      onFail?.();
+    };
+
+    socket.onclose = () => {
+      if (this.socket !== socket) return;
+      this.socket = null;
+      this.setAllPortsState('disconnected');
+
+      // Keep trying so the tablet picks the studio PC back up on its own
+      if (!this.disposed) {
+        this.open(RECONNECT_DELAY_MS);
+      }
+    };
+  }
+
+  // Sync ports with the bridge's list, reporting anything that appeared,
+  // disappeared or changed state
+  private updateDevices(devices: MIDIDeviceList) {
+    const sync = <P extends RemotePort>(
+      ports: Map<string, P>,
+      list: MIDIDevice[],
+      type: MIDIPortType,
+      create: (device: MIDIDevice) => P
+    ) => {
+      const seen = new Set<string>();
+      list.forEach(device => {
+        seen.add(device.id);
+        const port = ports.get(device.id);
+        if (!port) {
+          ports.set(device.id, create(device));
+          this.emitStateChange(device);
+        } else if (port.state !== device.state) {
+          port.update(device);
+          this.emitStateChange(device);
+        } else {
+          port.update(device);
+        }
+      });
+
+      ports.forEach((port, id) => {
+        if (!seen.has(id) && port.state !== 'disconnected') {
+          port.setState('disconnected');
+          this.emitStateChange(this.toDevice(port, type));
+        }
+      });
+    };
+
+    sync(this.inputs, devices.inputs, 'input', device => new RemoteInputPort(device));
+    sync(this.outputs, devices.outputs, 'output', device => new RemoteOutputPort(device, this));
+  }
+
+  private setAllPortsState(state: MIDIPortDeviceState) {
+    this.inputs.forEach(port => {
+      port.setState(state);
+      this.emitStateChange(this.toDevice(port, 'input'));
+    });
+    this.outputs.forEach(port => {
+      port.setState(state);
+      this.emitStateChange(this.toDevice(port, 'output'));
+    });
+  }
+
+  private toDevice(port: RemotePort, type: MIDIPortType): MIDIDevice {
+    return {
+      id: port.id,
+      manufacturer: port.manufacturer,
+      name: port.name,
+      type,
+      state: port.state,
+    };
+  }
+
+  private emitStateChange(device: MIDIDevice) {
+    this.onstatechange?.({
+      port: {
+        id: device.id,
+        manufacturer: device.manufacturer,
+        name: device.name,
+        state: device.state,
+        type: device.type,
+      },
+      timestamp: performance.now()
+    });
+  }
+
+  sendToBridge(message: BridgeClientMessage) {
+    if (!this.socket || this.socket.readyState !== WebSocket.OPEN) {
+      throw new Error('MIDI bridge is not connected');
+    }
+    this.socket.send(JSON.stringify(message));
+  }
+
+  // Ports the bridge stopped reporting are kept as disconnected, like Web MIDI
+  getInputs(): MIDITransportInput[] {
+    return Array.from(this.inputs.values());
+  }
+
+  getOutputs(): MIDITransportOutput[] {
+    return Array.from(this.outputs.values());
+  }
+
+  dispose() {
+    this.disposed = true;
+    this.cancelPendingInit?.();
+    this.inputs.forEach(port => {
+      port.onmessage = null;
+    });
+    this.onstatechange = null;
+    this.closeSocket();
+  }
+}
@@ -0,0 +1,130 @@
+// Minimal OSC 1.0 encoder/decoder for the types controls use
+
+export type OSCArgument =
+  | { type: 'f'; value: number }
+  | { type: 'i'; value: number }
+  | { type: 's'; value: string }
+  | { type: 'T' }
+  | { type: 'F' };
+
+export interface OSCMessage {
+  address: string;
+  args: OSCArgument[];
+}
+
+const BUNDLE_TAG = '#bundle';
+
+// OSC strings are null terminated and padded to a multiple of 4 bytes
+const paddedLength = (length: number) => (length + 4) & ~3;
+
+const encodeString = (value: string): Uint8Array => {
+  const bytes = new TextEncoder().encode(value);
+  const padded = new Uint8Array(paddedLength(bytes.length));
+  padded.set(bytes);
+  return padded;
+};
+
+/**
+ * Encode a single OSC message
+ */
+export const encodeOSCMessage = ({ address, args }: OSCMessage): Uint8Array => {
+  const parts: Uint8Array[] = [
+    encodeString(address),
+    encodeString(',' + args.map(arg => arg.type).join('')),
+  ];
+
+  args.forEach(arg => {
+    if (arg.type === 'f' || arg.type === 'i') {
+      const bytes = new Uint8Array(4);
+      const view = new DataView(bytes.buffer);
+      if (arg.type === 'f') {
+        view.setFloat32(0, arg.value);
+      } else {
+        view.setInt32(0, Math.round(arg.value));
+      }
+      parts.push(bytes);
+    } else if (arg.type === 's') {
+      parts.push(encodeString(arg.value));
+    }
+    // T and F carry no data
+  });
+
+  const packet = new Uint8Array(parts.reduce((total, part) => total + part.length, 0));
+  let offset = 0;
+  parts.forEach(part => {
+    packet.set(part, offset);
+    offset += part.length;
+  });
+  return packet;
+};
+
+const readString = (view: DataView, offset: number): [string, number] => {
+  let end = offset;
+  while (end < view.byteLength && view.getUint8(end) !== 0) end++;
+  const value = new TextDecoder().decode(new Uint8Array(view.buffer, view.byteOffset + offset, end - offset));
+  return [value, offset + paddedLength(end - offset)];
+};
+
+const decodeMessage = (view: DataView): OSCMessage => {
+  let [address, offset] = readString(view, 0);
+  let typeTags: string;
+  [typeTags, offset] = readString(view, offset);
+
+  const args: OSCArgument[] = [];
+  for (const type of typeTags.slice(1)) {
+    switch (type) {
+      case 'f':
+        args.push({ type, value: view.getFloat32(offset) });
+        offset += 4;
+        break;
+      case 'i':
+        args.push({ type, value: view.getInt32(offset) });
+        offset += 4;
+        break;
+      case 'd':
+        // Read doubles as floats, controls don't need the precision
+        args.push({ type: 'f', value: view.getFloat64(offset) });
+        offset += 8;
+        break;
+      case 's': {
+        let value: string;
+        [value, offset] = readString(view, offset);
+        args.push({ type, value });
+        break;
+      }
+      case 'T':
+      case 'F':
+        args.push({ type });
+        break;
+      default:
+        throw new Error(`Unsupported OSC type tag '${type}' in ${address}`);
+    }
+  }
+
+  return { address, args };
+};
+
+/**
+ * Decode an OSC packet into its messages, flattening bundles
+ */
+export const decodeOSCPacket = (data: ArrayBuffer | Uint8Array): OSCMessage[] => {
+  const view = data instanceof Uint8Array
+    ? new DataView(data.buffer, data.byteOffset, data.byteLength)
+    : new DataView(data);
+
+  const [tag, start] = readString(view, 0);
+  if (tag !== BUNDLE_TAG) {
+    return [decodeMessage(view)];
+  }
+
+  // Skip the 8-byte time tag, bundle timing is ignored
+  const messages: OSCMessage[] = [];
+  let offset = start + 8;
+  while (offset + 4 <= view.byteLength) {
+    const size = view.getInt32(offset);
+    offset += 4;
+    messages.push(...decodeOSCPacket(new Uint8Array(view.buffer, view.byteOffset + offset, size)));
+    offset += size;
+  }
+  return messages;
+};
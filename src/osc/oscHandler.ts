@@ -0,0 +1,200 @@
+import { OSCConfig } from '../types';
+import { decodeOSCPacket, encodeOSCMessage, OSCArgument, OSCMessage } from './oscCodec';
+
+const RECONNECT_DELAY_MS = 2000;
+
+type OSCListener = (args: OSCArgument[]) => void;
+
+// Default OSC range for each argument type
+export const getDefaultOSCRange = (argType: OSCConfig['argType']): [number, number] =>
+  argType === 'int' ? [0, 127] : [0, 1];
+
+// OSC range of a control, falling back to the type's default
+const getOSCRange = (osc: OSCConfig): [number, number] => {
+  const [defaultMin, defaultMax] = getDefaultOSCRange(osc.argType);
+  return [osc.min ?? defaultMin, osc.max ?? defaultMax];
+};
+
+// Position of a value within a range, 0-1
+const normalize = (value: number, min: number, max: number) =>
+  max === min ? 0 : Math.max(0, Math.min(1, (value - min) / (max - min)));
+
+// First numeric or boolean argument as a number
+const getArgumentValue = (args: OSCArgument[]): number | null => {
+  for (const arg of args) {
+    if (arg.type === 'f' || arg.type === 'i') return arg.value;
+    if (arg.type === 'T') return 1;
+    if (arg.type === 'F') return 0;
+  }
+  return null;
+};
+
+// Sends and receives OSC through bridge/osc-bridge.js, which relays packets
+// between a WebSocket and UDP
+export class OSCHandler {
+  private socket: WebSocket | null = null;
+  private url: string | null = null;
+  private reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+  private hasWarnedNotConnected = false;  // Sends while disconnected warn once, not per message
+  private listeners: Map<string, Set<OSCListener>> = new Map();
+
+  // Connect to a bridge, replacing any previous connection
+  connect(url: string) {
+    if (this.url === url && this.socket) return;
+
+    this.disconnect();
+    this.url = url;
+    this.open();
+  }
+
+  disconnect() {
+    this.url = null;
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+    const socket = this.socket;
+    this.socket = null;
+    socket?.close();
+  }
+
+  isConnected(): boolean {
+    return this.socket?.readyState === WebSocket.OPEN;
+  }
+
+  private open() {
+    if (!this.url) return;
+
+    let socket: WebSocket;
+    try {
+      socket = new WebSocket(this.url);
+    } catch (error) {
+      console.error('Failed to connect to OSC bridge:', error);
+      return;
+    }
+    socket.binaryType = 'arraybuffer';
+    this.socket = socket;
+
+    socket.onopen = () => {
+      console.log(`Connected to OSC bridge at ${this.url}`);
+      this.hasWarnedNotConnected = false;
+    };
+
+    socket.onmessage = (event: MessageEvent) => {
+      if (!(event.data instanceof ArrayBuffer)) return;
+
+      try {
+        decodeOSCPacket(event.data).forEach(message => this.handleMessage(message));
+      } catch (error) {
+        console.warn('Ignoring malformed OSC packet:', error);
+      }
+    };
+
+    socket.onclose = () => {
+      if (this.socket !== socket) return;
+      this.socket = null;
+
+      // Keep retrying until disconnected on purpose
+      if (this.url) {
+        this.reconnectTimer = setTimeout(() => this.open(), RECONNECT_DELAY_MS);
+      }
+    };
+  }
+
+  private handleMessage(message: OSCMessage) {
+    const listeners = this.listeners.get(message.address);
+    if (!listeners) return;
+
+    listeners.forEach(callback => {
+      try {
+        callback(message.args);
+      } catch (error) {
+        console.error('Error in OSC listener callback:', error);
+      }
+    });
+  }
+
+  send(message: OSCMessage): boolean {
+    if (!this.socket || this.socket.readyState !== WebSocket.OPEN) {
+      if (!this.hasWarnedNotConnected) {
+        console.warn('OSC bridge is not connected');
+        this.hasWarnedNotConnected = true;
+      }
+      return false;
+    }
+
+    try {
+      this.socket.send(encodeOSCMessage(message));
+      return true;
+    } catch (error) {
+      console.error('Error sending OSC message:', error);
+      return false;
+    }
+  }
+
+  // Subscribe to messages for an exact address
+  subscribe(address: string, callback: OSCListener): () => void {
+    if (!this.listeners.has(address)) {
+      this.listeners.set(address, new Set());
+    }
+
+    this.listeners.get(address)!.add(callback);
+
+    // Return unsubscribe function
+    return () => {
+      const listeners = this.listeners.get(address);
+      if (listeners) {
+        listeners.delete(callback);
+        if (listeners.size === 0) {
+          this.listeners.delete(address);
+        }
+      }
+    };
+  }
+
+  // Send a control value (within min-max) scaled to the control's OSC range
+  sendControlValue(osc: OSCConfig, value: number, min: number, max: number): boolean {
+    if (!osc.address) return false;
+
+    const position = normalize(value, min, max);
+    const [oscMin, oscMax] = getOSCRange(osc);
+    const scaled = oscMin + position * (oscMax - oscMin);
+
+    let arg: OSCArgument;
+    switch (osc.argType) {
+      case 'int':
+        arg = { type: 'i', value: Math.round(scaled) };
+        break;
+      case 'bool':
+        arg = position >= 0.5 ? { type: 'T' } : { type: 'F' };
+        break;
+      default:
+        arg = { type: 'f', value: scaled };
+    }
+
+    return this.send({ address: osc.address, args: [arg] });
+  }
+
+  // Subscribe to a control's address, calling back with values mapped into min-max
+  subscribeToControlValue(
+    osc: OSCConfig,
+    min: number,
+    max: number,
+    callback: (value: number) => void
+  ): () => void {
+    if (!osc.address || osc.receive === false) return () => {};
+
+    return this.subscribe(osc.address, (args) => {
+      const value = getArgumentValue(args);
+      if (value === null) return;
+
+      const position = osc.argType === 'bool'
+        ? (value ? 1 : 0)
+        : normalize(value, ...getOSCRange(osc));
+      callback(min + position * (max - min));
+    });
+  }
+}
+
+// Create singleton instance
+export const oscHandler = new OSCHandler();
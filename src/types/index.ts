@@ -1,3 +1,6 @@
+import { MIDITransportType } from '../midi/transports/types';
+import { ClockDivision, ClockSource } from '../midi/midiClock';
+
 export interface Position {
   x: number;
   y: number;
@@ -8,14 +11,23 @@ export interface Size {
   h: number;
 }
 
+export type MidiMessageType = 'cc' | 'pitchbend' | 'nrpn' | 'rpn' | 'note';
+
 export interface MidiConfig {
   channel?: number;     // Make channel optional
   cc?: number;          // Make cc optional
   min?: number;        // Min value (0-127, default 0)
   max?: number;        // Max value (0-127, default 127)
+  messageType?: MidiMessageType;  // Message sent by the control (default 'cc')
+  highResolution?: boolean;  // 14-bit values (0-16383): CC n/n+32 pair, or data entry 6/38 for NRPN/RPN
+  parameter?: number;   // NRPN/RPN parameter number (0-16383)
+  nullTermination?: boolean;  // Select the null RPN after each NRPN/RPN value
+  note?: number;        // Note number for note mode (0-127, default 60)
+  velocity?: number;    // Note On velocity for note mode (1-127, default 100)
+  port?: string;        // Output device ID or 'all' (default: the preset's main output)
 }
 
-export type ControlType = 'slider' | 'button' | 'toggle' | 'label' | 'textbox';
+export type ControlType = 'slider' | 'button' | 'toggle' | 'label' | 'textbox' | 'program' | 'sysex' | 'transport' | 'macro' | 'knob' | 'xypad' | 'padgrid' | 'keyboard' | 'sequencer' | 'selector' | 'list' | 'meter' | 'history';
 
 interface SliderViewMode {
   minValue: number;
@@ -27,6 +39,60 @@ interface SliderViewMode {
 export interface SliderConfig {
   steps?: number;
   viewMode?: Partial<SliderViewMode>;  // Changed to allow partial view mode settings
+  centerDetent?: boolean;  // Snap to the centre when close to it (pitch bend)
+  springBack?: boolean;    // Return to the centre on release (pitch bend)
+  lfo?: LFOConfig;         // Modulator that moves the slider automatically
+}
+
+export type KnobDragMode = 'vertical' | 'rotary';
+
+export interface KnobConfig {
+  dragMode?: KnobDragMode;  // Drag up/down, or turn around the centre (default 'vertical')
+  bipolar?: boolean;        // Fill and show values from the centre of the range
+}
+
+export type LFOShape = 'sine' | 'triangle' | 'saw' | 'square' | 'random';
+
+export interface LFOConfig {
+  enabled: boolean;
+  shape: LFOShape;
+  rate: number;             // Cycles per second when not tempo synced
+  depth: number;            // Swing as a fraction of the slider range (0-1)
+  offset: number;           // Centre as a fraction of the slider range (0-1)
+  sync?: ClockDivision;     // Cycle length in note values, following the clock tempo
+}
+
+export interface ProgramEntry {
+  name: string;
+  program: number;     // Program number (0-127)
+  bankMsb?: number;    // Bank Select MSB (CC 0), omitted if not sent
+  bankLsb?: number;    // Bank Select LSB (CC 32), omitted if not sent
+}
+
+export type SysExChecksumType = 'none' | 'roland' | 'yamaha';
+
+export interface SelectorOption {
+  label: string;
+  value: number;       // CC value sent when the option is picked (0-127)
+}
+
+export type ListStyle = 'dropdown' | 'list';
+
+export interface SysExConfig {
+  message: string;          // Hex bytes, e.g. "F0 41 10 42 12 40 00 7F {value} F7"
+  checksum?: SysExChecksumType;  // Checksum inserted before F7 (default 'none')
+  checksumStart?: number;   // Index of the first byte covered by the checksum
+  linkedControlId?: string; // Control whose value fills {value} placeholders
+}
+
+export type OSCArgType = 'float' | 'int' | 'bool';
+
+export interface OSCConfig {
+  address: string;          // OSC address pattern, e.g. "/mixer/ch1/fader"
+  argType: OSCArgType;      // Type of the single argument sent with the address
+  min?: number;             // OSC value at the control's minimum (default 0)
+  max?: number;             // OSC value at the control's maximum (default 1 for float, 127 for int)
+  receive?: boolean;        // Update the control from incoming messages (default true)
 }
 
 export interface ControlConfig {
@@ -35,7 +101,115 @@ export interface ControlConfig {
   midi?: MidiConfig;
   value: number;
   [key: string]: any; // For control-specific config
-  sliderConfig?: SliderConfig;
+  sliderConfig?: SliderConfig;  // Also holds steps and value display for knobs
+  knobConfig?: KnobConfig;
+  programs?: ProgramEntry[];  // Named programs for program change controls
+  sysex?: SysExConfig;        // Message for SysEx controls
+  osc?: OSCConfig;            // Optional OSC mapping sent alongside MIDI
+  quantize?: ClockDivision;   // Hold sends until the next clock division (sliders and buttons)
+  clock?: ClockConfig;        // Clock settings for transport controls
+  macroTargets?: MacroTarget[];  // CCs driven by macro controls
+  xyPad?: XYPadConfig;        // Axis and touch messages for XY pads
+  padGrid?: PadGridConfig;    // Note layout for pad grids
+  keyboard?: KeyboardConfig;  // Key range for piano keyboards
+  sequencer?: SequencerConfig;  // Pattern for step sequencers
+  options?: SelectorOption[]; // Labeled values for selector and list controls
+  listStyle?: ListStyle;      // How list controls show their options
+  meter?: MeterConfig;        // Source and display for meters
+  history?: HistoryConfig;    // Time window and range for history graphs
+}
+
+export type MacroCurve = 'linear' | 'exponential' | 'logarithmic' | 'scurve';
+
+export interface MacroTarget {
+  channel: number;
+  cc: number;
+  min: number;              // CC value at the bottom of the macro
+  max: number;              // CC value at the top of the macro
+  curve?: MacroCurve;       // Response across the macro's travel (default 'linear')
+  invert?: boolean;         // Move from max to min instead
+}
+
+export interface XYAxisConfig {
+  channel: number;
+  cc: number;
+  min: number;              // CC value at the left (X) or bottom (Y) edge
+  max: number;              // CC value at the right (X) or top (Y) edge
+  springReturn?: boolean;   // Glide back to the centre on release
+}
+
+export interface XYTouchConfig {
+  channel: number;
+  cc: number;
+  onValue: number;          // Sent when the pad is touched
+  offValue: number;         // Sent when it is released
+}
+
+export interface XYPadConfig {
+  x: XYAxisConfig;
+  y: XYAxisConfig;
+  touch?: XYTouchConfig;    // Optional CC sent on touch and release
+}
+
+export type PadScale = 'chromatic' | 'major' | 'minor' | 'majorPentatonic' | 'minorPentatonic';
+
+// 'sequential' continues each row where the last ended, 'fourths' starts
+// each row a fourth higher like an isomorphic grid controller
+export type PadLayout = 'sequential' | 'fourths';
+
+export type PadVelocityMode = 'fixed' | 'position' | 'pressure';
+
+export interface PadGridConfig {
+  rows: number;
+  columns: number;
+  baseNote: number;         // Note of the bottom-left pad
+  scale?: PadScale;         // Notes the pads step through (default 'chromatic')
+  layout?: PadLayout;       // How rows continue (default 'sequential')
+  velocityMode?: PadVelocityMode;  // Where the velocity comes from (default 'fixed')
+  velocity?: number;        // Fixed velocity, and the fallback without pressure (default 100)
+}
+
+export interface KeyboardConfig {
+  startOctave: number;      // Octave of the lowest C, before shifting (middle C is C4)
+  octaves: number;          // Number of octaves shown (a top C is added)
+  velocity?: number;        // Note On velocity (default 100)
+}
+
+export interface SequencerStep {
+  active: boolean;
+  note: number;             // MIDI note number (0-127)
+  velocity: number;         // Note On velocity (1-127)
+  gate: number;             // Note length as a fraction of the step (0.05-1)
+}
+
+export interface SequencerConfig {
+  steps: SequencerStep[];   // 8, 16 or 32 steps
+  division?: ClockDivision; // Length of each step (default '1/16')
+  swing?: number;           // Where every second step lands, 50 (straight) to 75 percent
+}
+
+export type MeterSource = 'cc' | 'aftertouch' | 'velocity';
+export type MeterDisplay = 'bar' | 'needle' | 'number';
+
+export interface MeterConfig {
+  source: MeterSource;      // CC on the control's channel, channel pressure or note velocity
+  display: MeterDisplay;
+  peakHold: number;         // How long the peak marker stays, in ms (0 hides it)
+  decay: number;            // How fast the level falls, in values per second (0 follows input exactly)
+}
+
+export type HistorySource = 'incoming' | 'outgoing' | 'both';
+
+export interface HistoryConfig {
+  source: HistorySource;    // CC values received, sent from this app, or both
+  window: number;           // Seconds of history shown
+  min: number;              // Value at the bottom of the graph (0-127)
+  max: number;              // Value at the top of the graph (0-127)
+}
+
+export interface ClockConfig {
+  source: ClockSource;      // Generate clock or follow an incoming one
+  bpm?: number;             // Starting tempo for the internal clock
 }
 
 export interface ControlItem {
@@ -54,19 +228,11 @@ export interface MidiControllerPreset {
     columns: number;
     rows: number;
   };
-  midiDeviceId?: string;
+  midiDeviceId?: string;           // Main output, used by controls without a port
+  additionalOutputIds?: string[];  // Extra outputs controls can be routed to
+  inputDeviceIds?: string[];       // Inputs controls listen on (default: the input named like the main output)
 }
 
-export const demoChartData = [
-  { timestamp: '2023-07-01T10:00:00', successful: 5, total: 8 },
-  { timestamp: '2023-07-01T11:00:00', successful: 10, total: 12 },
-  { timestamp: '2023-07-01T12:00:00', successful: 15, total: 18 },
-  { timestamp: '2023-07-01T13:00:00', successful: 20, total: 22 },
-  { timestamp: '2023-07-01T14:00:00', successful: 25, total: 28 },
-  { timestamp: '2023-07-01T15:00:00', successful: 30, total: 32 },
-  { timestamp: '2023-07-01T16:00:00', successful: 35, total: 38 },
-];
-
 export interface ResizeHandleSettings {
   minSize: number;
   maxSize: number;
@@ -98,6 +264,9 @@ export interface ThemePreset {
 
 export interface AppSettings {
   resizeHandles: ResizeHandleSettings;
+  midiTransport: MIDITransportType;
+  midiBridgeUrl: string;  // WebSocket bridge address for the 'websocket' transport
+  oscBridgeUrl: string;   // WebSocket-to-UDP bridge for OSC, empty to disable
   fontSize: {
     controls: number;
     labels: number;
@@ -0,0 +1,79 @@
+import { MidiConfig, SliderConfig } from '../types';
+import { CC14_MAX, PITCH_BEND_MAX } from '../midi/midiHandler';
+
+export interface ControlRange {
+  isPitchBend: boolean;
+  isHighResolution: boolean;
+  isPlainCC: boolean;   // Only plain 7-bit CC takes part in midiSync and the device value request
+  min: number;
+  max: number;
+}
+
+/**
+ * Get the value range of a slider or knob from its MIDI config
+ * @param midi The control's MIDI config
+ * @returns Message kind flags and the range, with min and max in order
+ */
+export const getControlRange = (midi?: MidiConfig): ControlRange => {
+  const isPitchBend = midi?.messageType === 'pitchbend';
+  const isHighResolution = !isPitchBend && !!midi?.highResolution;
+  // Pitch bend always uses the full 14-bit range
+  const minVal = isPitchBend ? 0 : midi?.min ?? 0;
+  const maxVal = isPitchBend ? PITCH_BEND_MAX : midi?.max ?? (isHighResolution ? CC14_MAX : 127);
+
+  return {
+    isPitchBend,
+    isHighResolution,
+    isPlainCC: (midi?.messageType ?? 'cc') === 'cc' && !isHighResolution,
+    min: Math.min(minVal, maxVal),
+    max: Math.max(minVal, maxVal),
+  };
+};
+
+/**
+ * Snap a value to the nearest step
+ * @param value Value within the range
+ * @param min Bottom of the range
+ * @param max Top of the range
+ * @param steps Number of steps across the range (unset leaves the value alone)
+ * @returns The snapped value
+ */
+export const snapToStep = (value: number, min: number, max: number, steps?: number): number => {
+  if (!steps) return value;
+
+  const stepSize = (max - min) / steps;
+  return min + Math.round((value - min) / stepSize) * stepSize;
+};
+
+/**
+ * Format a value for display under a slider or knob
+ * @param value Value within the range
+ * @param min Bottom of the range
+ * @param max Top of the range
+ * @param viewMode Custom display range and unit, if set
+ * @param centerValue Show the signed offset from this value instead of a percentage
+ * @returns Text to show
+ */
+export const formatControlValue = (
+  value: number,
+  min: number,
+  max: number,
+  viewMode?: SliderConfig['viewMode'],
+  centerValue?: number
+): string => {
+  const range = max - min;
+  const fraction = range === 0 ? 0 : (value - min) / range;
+
+  if (viewMode?.minValue !== undefined && viewMode.maxValue !== undefined) {
+    const { minValue, maxValue, extraText, decimalPlaces = 1 } = viewMode;
+    const displayValue = minValue + (maxValue - minValue) * fraction;
+    return `${displayValue.toFixed(decimalPlaces)}${extraText || ''}`;
+  }
+
+  if (centerValue !== undefined) {
+    const offset = Math.round(value) - centerValue;
+    return offset > 0 ? `+${offset}` : `${offset}`;
+  }
+
+  return `${Math.round(fraction * 100)}%`;
+};
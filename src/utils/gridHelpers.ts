@@ -1,5 +1,13 @@
 import { v4 as uuidv4 } from 'uuid';
 import { ControlItem, ControlType, Size, Position } from '../types';
+import { DEFAULT_BPM } from '../midi/midiClock';
+import { DEFAULT_XY_PAD } from './xyPadHelpers';
+import { DEFAULT_PAD_GRID } from './padGridHelpers';
+import { DEFAULT_KEYBOARD } from './keyboardHelpers';
+import { DEFAULT_SEQUENCER } from './sequencerHelpers';
+import { DEFAULT_SELECTOR_OPTIONS } from './selectorHelpers';
+import { DEFAULT_METER } from './meterHelpers';
+import { DEFAULT_HISTORY } from './historyHelpers';
 
 /**
  * Check if a position and size would overlap with any existing controls
@@ -77,6 +85,44 @@ export const findAvailablePosition = (
   return { x: 0, y: 0 };
 };
 
+/**
+ * Get the default grid size for a control type
+ * @param type The control type
+ * @returns The default size in grid cells
+ */
+export const getDefaultSize = (type: ControlType): Size => {
+  switch (type) {
+    case 'slider':
+    case 'macro':
+      return { w: 1, h: 3 };
+    case 'program':
+    case 'selector':
+    case 'list':
+      return { w: 3, h: 1 };
+    case 'history':
+      return { w: 3, h: 2 };
+    case 'transport':
+      return { w: 4, h: 1 };
+    case 'keyboard':
+    case 'sequencer':
+      return { w: 4, h: 2 };
+    case 'knob':
+      return { w: 1, h: 2 };
+    case 'xypad':
+    case 'padgrid':
+    case 'meter':
+      return { w: 2, h: 2 };
+    case 'toggle':
+    case 'button':
+    case 'textbox':
+    case 'label':
+    case 'sysex':
+      return { w: 2, h: 1 };
+    default:
+      return { w: 2, h: 1 };
+  }
+};
+
 /**
  * Create a new control with default settings
  * @param type The type of control to create
@@ -88,20 +134,7 @@ export const createNewControl = (
   position: Position
 ): ControlItem => {
   // Default size based on control type
-  let size: Size;
-  switch (type) {
-    case 'slider':
-      size = { w: 1, h: 3 };
-      break;
-    case 'toggle':
-    case 'button':
-    case 'textbox':
-    case 'label':
-      size = { w: 2, h: 1 };
-      break;
-    default:
-      size = { w: 2, h: 1 };
-  }
+  const size = getDefaultSize(type);
   
   // Generate base configs with defaults for the control type
   let config: any = {
@@ -130,6 +163,19 @@ export const createNewControl = (
         }
       };
       break;
+    case 'knob':
+      config = {
+        ...config,
+        knobConfig: { dragMode: 'vertical', bipolar: false },
+        sliderConfig: {
+          viewMode: {
+            minValue: 0,
+            maxValue: 100,
+            decimalPlaces: 0
+          }
+        }
+      };
+      break;
     case 'toggle':
     case 'button':
       config = {
@@ -157,6 +203,97 @@ export const createNewControl = (
         showLabel: true
       };
       break;
+    case 'program':
+      config = {
+        ...config,
+        midi: { channel: 1 },  // Program changes only need a channel
+        programs: [
+          { name: 'Program 1', program: 0 },
+          { name: 'Program 2', program: 1 },
+        ]
+      };
+      break;
+    case 'sysex':
+      config = {
+        ...config,
+        sysex: { message: 'F0 7E 7F 06 01 F7' }  // Universal Identity Request
+      };
+      delete config.midi;  // SysEx messages carry their own addressing
+      break;
+    case 'transport':
+      config = {
+        ...config,
+        value: DEFAULT_BPM,
+        clock: { source: 'internal', bpm: DEFAULT_BPM }
+      };
+      delete config.midi;  // Clock messages have no channel
+      break;
+    case 'macro':
+      config = {
+        ...config,
+        orientation: 'vertical',
+        // Filter sweep: cutoff opens fully while resonance rises gently
+        macroTargets: [
+          { channel: 1, cc: 74, min: 0, max: 127, curve: 'exponential' },
+          { channel: 1, cc: 71, min: 0, max: 80, curve: 'linear' },
+        ]
+      };
+      delete config.midi;  // Each target has its own channel and CC
+      break;
+    case 'xypad':
+      config = {
+        ...config,
+        xyPad: DEFAULT_XY_PAD
+      };
+      delete config.midi;  // Each axis has its own channel and CC
+      break;
+    case 'padgrid':
+      config = {
+        ...config,
+        midi: { channel: 10 },  // General MIDI drums
+        padGrid: DEFAULT_PAD_GRID
+      };
+      break;
+    case 'keyboard':
+      config = {
+        ...config,
+        midi: { channel: 1 },
+        keyboard: DEFAULT_KEYBOARD
+      };
+      break;
+    case 'sequencer':
+      config = {
+        ...config,
+        midi: { channel: 1 },
+        sequencer: DEFAULT_SEQUENCER
+      };
+      break;
+    case 'selector':
+      config = {
+        ...config,
+        orientation: 'horizontal',
+        options: DEFAULT_SELECTOR_OPTIONS
+      };
+      break;
+    case 'list':
+      config = {
+        ...config,
+        listStyle: 'dropdown',
+        options: DEFAULT_SELECTOR_OPTIONS
+      };
+      break;
+    case 'meter':
+      config = {
+        ...config,
+        meter: DEFAULT_METER
+      };
+      break;
+    case 'history':
+      config = {
+        ...config,
+        history: DEFAULT_HISTORY
+      };
+      break;
   }
   
   return {
@@ -185,6 +322,31 @@ const getDefaultLabel = (type: ControlType): string => {
       return 'Text Input';
     case 'label':
       return 'Label';
+    case 'program':
+      return 'Program';
+    case 'sysex':
+      return 'SysEx';
+    case 'transport':
+      return 'Transport';
+    case 'macro':
+      return 'Macro';
+    case 'knob':
+      return 'Knob';
+    case 'xypad':
+      return 'XY Pad';
+    case 'padgrid':
+      return 'Pads';
+    case 'keyboard':
+      return 'Keyboard';
+    case 'sequencer':
+      return 'Sequencer';
+    case 'selector':
+    case 'list':
+      return 'Waveform';
+    case 'meter':
+      return 'Meter';
+    case 'history':
+      return 'History';
     default:
       return 'Control';
   }
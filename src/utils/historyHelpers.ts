@@ -0,0 +1,29 @@
+import { HistoryConfig } from '../types';
+
+export interface HistoryPoint {
+  time: number;   // performance.now() when the value arrived
+  value: number;
+}
+
+export const DEFAULT_HISTORY: HistoryConfig = {
+  source: 'both',
+  window: 10,
+  min: 0,
+  max: 127,
+};
+
+export const MIN_HISTORY_WINDOW = 1;
+export const MAX_HISTORY_WINDOW = 60;
+
+/**
+ * Drop points that have scrolled out of view
+ * @param points Points in time order
+ * @param now Current time
+ * @param windowMs Length of history shown
+ * @returns The visible points, plus the last one before them so the line reaches the left edge
+ */
+export const trimHistory = (points: HistoryPoint[], now: number, windowMs: number): HistoryPoint[] => {
+  const firstVisible = points.findIndex(point => point.time >= now - windowMs);
+  if (firstVisible === -1) return points.slice(-1);
+  return points.slice(Math.max(0, firstVisible - 1));
+};
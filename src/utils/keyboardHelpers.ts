@@ -0,0 +1,31 @@
+import { KeyboardConfig } from '../types';
+
+export const DEFAULT_KEYBOARD: KeyboardConfig = {
+  startOctave: 3,
+  octaves: 2,
+  velocity: 100,
+};
+
+export const MAX_KEYBOARD_OCTAVES = 5;
+export const MIN_OCTAVE = -1;
+export const MAX_OCTAVE = 9;
+
+// Damper pedal
+export const SUSTAIN_CC = 64;
+
+// Semitones within an octave that are black keys
+const BLACK_KEYS = new Set([1, 3, 6, 8, 10]);
+
+/**
+ * Check whether a note is a black key
+ * @param note MIDI note number
+ * @returns True for sharps/flats
+ */
+export const isBlackKey = (note: number): boolean => BLACK_KEYS.has(((note % 12) + 12) % 12);
+
+/**
+ * Get the note number of C in an octave (middle C, note 60, is C4)
+ * @param octave Octave number
+ * @returns MIDI note number
+ */
+export const getOctaveStartNote = (octave: number): number => (octave + 1) * 12;
@@ -0,0 +1,33 @@
+import { MacroCurve, MacroTarget } from '../types';
+
+/**
+ * Shape a macro position with a response curve
+ * @param curve The curve type
+ * @param position Macro position (0-1)
+ * @returns Shaped position (0-1)
+ */
+export const applyMacroCurve = (curve: MacroCurve, position: number): number => {
+  switch (curve) {
+    case 'exponential':
+      return position * position;
+    case 'logarithmic':
+      return Math.sqrt(position);
+    case 'scurve':
+      return position * position * (3 - 2 * position);
+    default:
+      return position;
+  }
+};
+
+/**
+ * Get the CC value a target should have at a macro position
+ * @param target The macro target
+ * @param position Macro position (0-1)
+ * @returns CC value (0-127)
+ */
+export const getMacroTargetValue = (target: MacroTarget, position: number): number => {
+  const clamped = Math.max(0, Math.min(1, position));
+  const shaped = applyMacroCurve(target.curve ?? 'linear', target.invert ? 1 - clamped : clamped);
+  const value = Math.round(target.min + shaped * (target.max - target.min));
+  return Math.max(0, Math.min(127, value));
+};
@@ -0,0 +1,24 @@
+import { MeterConfig } from '../types';
+
+export const DEFAULT_METER: MeterConfig = {
+  source: 'cc',
+  display: 'bar',
+  peakHold: 1000,
+  decay: 100,
+};
+
+export const MAX_PEAK_HOLD = 5000;
+export const MAX_DECAY = 1000;
+
+/**
+ * Let a meter level fall towards its input
+ * @param level Level shown now
+ * @param target Latest input value
+ * @param decay Fall rate in values per second (0 jumps straight to the input)
+ * @param elapsedMs Time since the last step
+ * @returns The new level, never below the input
+ */
+export const decayMeterLevel = (level: number, target: number, decay: number, elapsedMs: number): number => {
+  if (decay <= 0 || level <= target) return target;
+  return Math.max(target, level - (decay * elapsedMs) / 1000);
+};
@@ -1,3 +1,5 @@
+import { MidiConfig } from '../types';
+
 export const waitForMidiInit = (timeout = 5000): Promise<void> => {
   return new Promise((resolve, reject) => {
     const startTime = Date.now();
@@ -24,3 +26,55 @@ export const waitForMidiInit = (timeout = 5000): Promise<void> => {
     checkInit();
   });
 };
+
+/**
+ * Short description of what a MIDI config addresses, for edit-mode badges
+ * @param midi The control's MIDI config
+ * @returns e.g. "74", "1/14", "PB", "C4" or "NRPN 1025"
+ */
+export const formatMidiAddress = (midi: MidiConfig): string => {
+  const suffix = midi.highResolution ? '/14' : '';
+  switch (midi.messageType ?? 'cc') {
+    case 'pitchbend':
+      return 'PB';
+    case 'note':
+      return getNoteName(Number(midi.note ?? 60));
+    case 'nrpn':
+      return `NRPN ${midi.parameter ?? 0}${suffix}`;
+    case 'rpn':
+      return `RPN ${midi.parameter ?? 0}${suffix}`;
+    default:
+      return `${midi.cc ?? 0}${suffix}`;
+  }
+};
+
+/**
+ * Count the MIDI messages one value send puts on the wire
+ * @param midi The control's MIDI config, if it has one
+ * @returns 1 for plain CC, pitch bend and notes, 2 for 14-bit CC, 3-6 for NRPN/RPN
+ */
+export const countMessagesPerSend = (midi?: MidiConfig): number => {
+  if (!midi) return 0;
+
+  switch (midi.messageType ?? 'cc') {
+    case 'nrpn':
+    case 'rpn':
+      // Parameter select, data entry, then the optional null parameter
+      return 2 + (midi.highResolution ? 2 : 1) + (midi.nullTermination ? 2 : 0);
+    case 'cc':
+      return midi.highResolution ? 2 : 1;
+    default:
+      return 1;
+  }
+};
+
+const NOTE_NAMES = ['C', 'C#', 'D', 'D#', 'E', 'F', 'F#', 'G', 'G#', 'A', 'A#', 'B'];
+
+/**
+ * Get the name of a MIDI note number (middle C, note 60, is C4)
+ * @param note MIDI note number (0-127)
+ * @returns e.g. "C4" or "F#2"
+ */
+export const getNoteName = (note: number): string => {
+  return `${NOTE_NAMES[((note % 12) + 12) % 12]}${Math.floor(note / 12) - 1}`;
+};
@@ -0,0 +1,43 @@
+import { PadGridConfig, PadScale } from '../types';
+
+// Semitones above the root for each scale degree
+export const PAD_SCALES: Record<PadScale, number[]> = {
+  chromatic: [0, 1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11],
+  major: [0, 2, 4, 5, 7, 9, 11],
+  minor: [0, 2, 3, 5, 7, 8, 10],
+  majorPentatonic: [0, 2, 4, 7, 9],
+  minorPentatonic: [0, 3, 5, 7, 10],
+};
+
+// 4x4 chromatic from C1, the usual drum pad mapping
+export const DEFAULT_PAD_GRID: PadGridConfig = {
+  rows: 4,
+  columns: 4,
+  baseNote: 36,
+  scale: 'chromatic',
+  layout: 'sequential',
+  velocityMode: 'fixed',
+  velocity: 100,
+};
+
+export const MAX_PAD_GRID_SIZE = 8;
+
+/**
+ * Get the note a pad plays
+ * @param grid The pad grid config
+ * @param row Row counted from the bottom (0 is the bottom row)
+ * @param column Column counted from the left
+ * @returns MIDI note number, or null if it is above 127
+ */
+export const getPadNote = (grid: PadGridConfig, row: number, column: number): number | null => {
+  const intervals = PAD_SCALES[grid.scale ?? 'chromatic'];
+  // A fourth is five semitones, about 5/12 of the way through any scale
+  const rowStep = grid.layout === 'fourths'
+    ? Math.round((intervals.length * 5) / 12)
+    : grid.columns;
+
+  const degree = row * rowStep + column;
+  const octave = Math.floor(degree / intervals.length);
+  const note = grid.baseNote + octave * 12 + intervals[degree % intervals.length];
+  return note <= 127 ? note : null;
+};
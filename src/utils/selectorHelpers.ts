@@ -0,0 +1,38 @@
+import { SelectorOption } from '../types';
+
+// Oscillator waveforms spread over the CC range
+export const DEFAULT_SELECTOR_OPTIONS: SelectorOption[] = [
+  { label: 'Sine', value: 0 },
+  { label: 'Tri', value: 43 },
+  { label: 'Saw', value: 85 },
+  { label: 'Square', value: 127 },
+];
+
+/**
+ * Find the option closest to a value, for values that don't match exactly
+ * @param options The control's options
+ * @param value CC value
+ * @returns Index of the nearest option (the first on a tie), or -1 if there are none
+ */
+export const findNearestOptionIndex = (options: SelectorOption[], value: number | null): number => {
+  if (value === null) return -1;
+
+  return options.reduce((nearest, option, index) => {
+    if (nearest === -1) return index;
+    return Math.abs(option.value - value) < Math.abs(options[nearest].value - value) ? index : nearest;
+  }, -1);
+};
+
+/**
+ * Spread option values evenly over the CC range, keeping their order
+ * @param options The control's options
+ * @returns Options with values from 0 to 127
+ */
+export const spreadOptionValues = (options: SelectorOption[]): SelectorOption[] => {
+  if (options.length < 2) return options.map(option => ({ ...option, value: 0 }));
+
+  return options.map((option, index) => ({
+    ...option,
+    value: Math.round((index * 127) / (options.length - 1)),
+  }));
+};
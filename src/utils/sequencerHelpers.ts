@@ -0,0 +1,54 @@
+import { SequencerConfig, SequencerStep } from '../types';
+
+export const SEQUENCER_LENGTHS = [8, 16, 32];
+export const MIN_SWING = 50;
+export const MAX_SWING = 75;
+export const MIN_GATE = 0.05;
+
+/**
+ * Create an empty step
+ * @param note Note the step plays once switched on
+ * @returns A step that is switched off
+ */
+export const createSequencerStep = (note = 60): SequencerStep => ({
+  active: false,
+  note,
+  velocity: 100,
+  gate: 0.5,
+});
+
+// 16 steps of C4 on every beat
+export const DEFAULT_SEQUENCER: SequencerConfig = {
+  steps: Array.from({ length: 16 }, (_, i) => ({ ...createSequencerStep(), active: i % 4 === 0 })),
+  division: '1/16',
+  swing: MIN_SWING,
+};
+
+/**
+ * Change the number of steps, keeping the existing ones
+ * @param steps Current steps
+ * @param length New number of steps
+ * @returns Steps cut off or padded with empty steps on the last step's note
+ */
+export const resizeSequencerSteps = (steps: SequencerStep[], length: number): SequencerStep[] => {
+  if (steps.length >= length) return steps.slice(0, length);
+
+  const note = steps[steps.length - 1]?.note;
+  return [
+    ...steps,
+    ...Array.from({ length: length - steps.length }, () => createSequencerStep(note)),
+  ];
+};
+
+/**
+ * Get how late a step plays because of swing
+ * @param swing Swing percentage (50 is straight, 66.7 is triplet feel, 75 is the maximum)
+ * @param stepIndex Index of the step in the pattern
+ * @returns Delay as a fraction of a step (only odd steps are delayed)
+ */
+export const getSwingDelay = (swing: number, stepIndex: number): number => {
+  if (stepIndex % 2 === 0) return 0;
+
+  const clamped = Math.max(MIN_SWING, Math.min(MAX_SWING, swing));
+  return (clamped / 100) * 2 - 1;
+};
@@ -21,6 +21,9 @@ export const defaultTheme: ThemePreset = {
 };
 
 export const defaultSettings: AppSettings = {
+  midiTransport: 'webmidi',
+  midiBridgeUrl: 'ws://localhost:8765',
+  oscBridgeUrl: '',
   resizeHandles: {
     minSize: 16,
     maxSize: 32,
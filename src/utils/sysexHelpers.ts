@@ -0,0 +1,84 @@
+import { SysExConfig, SysExChecksumType } from '../types';
+import { SYSEX_START, SYSEX_END } from '../midi/midiHandler';
+
+const VALUE_PLACEHOLDER = /\{value\}/gi;
+
+// Typical first checksummed byte for each format: Roland DT1 messages cover the
+// address and data after F0 41 <device> <model> 12, Yamaha bulk dumps cover
+// everything after F0 43 <device> <format>.
+export const DEFAULT_CHECKSUM_START: Record<Exclude<SysExChecksumType, 'none'>, number> = {
+  roland: 5,
+  yamaha: 4,
+};
+
+/**
+ * Roland checksum: the value that brings the 7-bit sum of the bytes to zero
+ * @param bytes Address and data bytes
+ * @returns Checksum byte (0-127)
+ */
+export const rolandChecksum = (bytes: number[]): number => {
+  const sum = bytes.reduce((total, byte) => total + byte, 0);
+  return (128 - (sum % 128)) % 128;
+};
+
+/**
+ * Yamaha checksum: two's complement of the 7-bit sum of the bytes
+ * @param bytes Byte count, address and data bytes
+ * @returns Checksum byte (0-127)
+ */
+export const yamahaChecksum = (bytes: number[]): number => {
+  const sum = bytes.reduce((total, byte) => total + byte, 0);
+  return (~sum + 1) & 0x7F;
+};
+
+/**
+ * Parse a hex string such as "F0 43 10 4C {value} F7" into bytes
+ * @param hex Hex bytes, separated by spaces or not
+ * @param value Value for {value} placeholders (clamped to 0-127)
+ * @returns The bytes with F0/F7 framing added if missing, or null if invalid
+ */
+export const parseSysExHex = (hex: string, value = 0): number[] | null => {
+  const valueHex = Math.max(0, Math.min(127, Math.round(value))).toString(16).padStart(2, '0');
+  const digits = hex.replace(VALUE_PLACEHOLDER, valueHex).replace(/0x|[\s,]/gi, '');
+
+  if (digits.length === 0 || digits.length % 2 !== 0 || /[^0-9a-f]/i.test(digits)) {
+    return null;
+  }
+
+  const bytes = digits.match(/.{2}/g)!.map(pair => parseInt(pair, 16));
+
+  if (bytes[0] !== SYSEX_START) bytes.unshift(SYSEX_START);
+  if (bytes[bytes.length - 1] !== SYSEX_END) bytes.push(SYSEX_END);
+
+  return bytes;
+};
+
+/**
+ * Build the SysEx message for a control, filling placeholders and the checksum
+ * @param sysex The control's SysEx config
+ * @param value Value for {value} placeholders
+ * @returns The complete message, or null if the hex string is invalid
+ */
+export const buildSysExMessage = (sysex: SysExConfig, value = 0): number[] | null => {
+  const bytes = parseSysExHex(sysex.message, value);
+  if (!bytes) return null;
+
+  const checksumType = sysex.checksum ?? 'none';
+  if (checksumType === 'none') return bytes;
+
+  // The checksum covers from checksumStart up to (but not including) F7
+  const start = sysex.checksumStart ?? DEFAULT_CHECKSUM_START[checksumType];
+  const covered = bytes.slice(Math.max(1, start), -1);
+  const checksum = checksumType === 'roland' ? rolandChecksum(covered) : yamahaChecksum(covered);
+
+  return [...bytes.slice(0, -1), checksum, SYSEX_END];
+};
+
+/**
+ * Format bytes as an uppercase, space-separated hex string
+ * @param bytes The bytes to format
+ * @returns e.g. "F0 41 10 F7"
+ */
+export const formatSysExHex = (bytes: number[]): string => {
+  return bytes.map(byte => byte.toString(16).toUpperCase().padStart(2, '0')).join(' ');
+};
@@ -0,0 +1,32 @@
+import { XYAxisConfig, XYPadConfig, XYTouchConfig } from '../types';
+
+// General purpose controllers 1 and 2, with the touch on general purpose 3
+export const DEFAULT_XY_PAD: XYPadConfig = {
+  x: { channel: 1, cc: 16, min: 0, max: 127 },
+  y: { channel: 1, cc: 17, min: 0, max: 127 },
+};
+
+export const DEFAULT_XY_TOUCH: XYTouchConfig = { channel: 1, cc: 18, onValue: 127, offValue: 0 };
+
+/**
+ * Get the CC value for a position along an axis
+ * @param axis The axis config
+ * @param position Position along the axis (0-1, left to right or bottom to top)
+ * @returns CC value (0-127)
+ */
+export const getAxisValue = (axis: XYAxisConfig, position: number): number => {
+  const clamped = Math.max(0, Math.min(1, position));
+  const value = Math.round(axis.min + clamped * (axis.max - axis.min));
+  return Math.max(0, Math.min(127, value));
+};
+
+/**
+ * Get the position along an axis for an incoming CC value
+ * @param axis The axis config
+ * @param value CC value (0-127)
+ * @returns Position along the axis (0-1), or null if the axis has no range
+ */
+export const getAxisPosition = (axis: XYAxisConfig, value: number): number | null => {
+  if (axis.max === axis.min) return null;
+  return Math.max(0, Math.min(1, (value - axis.min) / (axis.max - axis.min)));
+};